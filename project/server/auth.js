@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+// User accounts and sessions. Signing in gives a session token, which the web
+// app gets as an HttpOnly cookie and scripts can send as
+// "Authorization: Bearer <token>". Admins alone can change sites and the
+// settings all users share; everyone keeps their own job states, saved
+// searches and notifications.
+export const ROLES = ['admin', 'user'];
+
+const SESSION_COOKIE = 'session';
+const SESSION_DAYS = parseInt(process.env.SESSION_DAYS) || 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Set COOKIE_SECURE=true when the app is served over HTTPS, so the session
+// cookie is never sent in the clear
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: process.env.COOKIE_SECURE === 'true',
+  path: '/'
+};
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/i;
+const MIN_PASSWORD_LENGTH = 8;
+
+const scrypt = promisify(crypto.scrypt);
+const KEY_LENGTH = 64;
+
+// Passwords are stored as "scrypt$<salt>$<hash>", both hex
+export const hashPassword = async (password) => {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+};
+
+// Checked against when there's no such user, so a failed sign-in takes as
+// long whether or not the username exists
+const DUMMY_HASH = `scrypt$${'0'.repeat(32)}$${'0'.repeat(KEY_LENGTH * 2)}`;
+
+export const verifyPassword = async (password, stored = DUMMY_HASH) => {
+  const [scheme, salt, hash] = String(stored).split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(String(password), Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+};
+
+// Field-level problems with an account's username, password and role, like
+// siteErrors(). With `partial`, fields that weren't given aren't checked.
+export const userErrors = (user, { partial = false } = {}) => {
+  const errors = {};
+  if (!partial || user?.username !== undefined) {
+    if (typeof user?.username !== 'string' || !USERNAME_PATTERN.test(user.username)) {
+      errors.username = 'Use 3-32 letters, digits, dots, dashes or underscores';
+    }
+  }
+  if (!partial || user?.password !== undefined) {
+    if (typeof user?.password !== 'string' || user.password.length < MIN_PASSWORD_LENGTH) {
+      errors.password = `Use at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+  }
+  if (user?.role !== undefined && !ROLES.includes(user.role)) {
+    errors.role = `Role must be one of ${ROLES.join(', ')}`;
+  }
+  return errors;
+};
+
+// Whether removing or demoting the user would leave nobody able to manage sites
+export const isLastAdmin = (storage, user) =>
+  user.role === 'admin' && storage.users.list().filter(other => other.role === 'admin').length === 1;
+
+// Only a hash of each token is stored
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Start a session for the user and return its token
+export const createSession = (storage, user) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  storage.sessions.removeExpired(new Date().toISOString());
+  storage.sessions.add({
+    tokenHash: hashToken(token),
+    userId: user.id,
+    expiresAt: new Date(Date.now() + SESSION_DAYS * DAY_MS).toISOString()
+  });
+  return token;
+};
+
+export const endSession = (storage, token) => storage.sessions.remove(hashToken(token));
+
+// The user a session token belongs to, or null if it's unknown or expired
+export const sessionUser = (storage, token) => {
+  if (!token) return null;
+  const session = storage.sessions.get(hashToken(token));
+  if (!session || session.expiresAt <= new Date().toISOString()) return null;
+  return storage.users.get(session.userId);
+};
+
+// The session token a request carries, from its Authorization header or cookie.
+// A cookie that can't be decoded counts as no session at all.
+export const requestToken = (req) => {
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim();
+  
+  const cookie = (req.get('Cookie') || '').split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${SESSION_COOKIE}=`));
+  if (!cookie) return null;
+  try {
+    return decodeURIComponent(cookie.slice(SESSION_COOKIE.length + 1));
+  } catch {
+    return null;
+  }
+};
+
+export const setSessionCookie = (res, token) =>
+  res.cookie(SESSION_COOKIE, token, { ...cookieOptions, maxAge: SESSION_DAYS * DAY_MS });
+
+export const clearSessionCookie = (res) => res.clearCookie(SESSION_COOKIE, cookieOptions);
+
+// Middleware setting req.user to the signed-in user, or null
+export const authenticate = (storage) => (req, res, next) => {
+  req.user = sessionUser(storage, requestToken(req));
+  next();
+};
+
+export const requireUser = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  next();
+};
+
+export const requireAdmin = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  if (req.user.role !== 'admin') {
+    return res.status(403).json({ error: 'Only admins can do this' });
+  }
+  next();
+};
@@ -0,0 +1,465 @@
+import fs from 'fs';
+import readline from 'readline';
+import { parseArgs } from 'util';
+import { openStorage } from './storage/index.js';
+import { runScraper, testSite } from './scraper.js';
+import { startRun, onRunFinished } from './runs.js';
+import { siteErrors, hasErrors } from './siteValidation.js';
+import { DEFAULT_PRESET, getPreset, toPortable } from './siteBundles.js';
+import { rescoreJobs } from './relevance.js';
+import { WORK_MODES } from './locations.js';
+import { parseJobQuery, filtersError } from './jobQuery.js';
+import { fetchSitePage } from './fetchers/index.js';
+import { closeBrowser } from './fetchers/browser.js';
+import { hashPassword, isLastAdmin, userErrors } from './auth.js';
+
+// Scrape and manage sites from the command line, on the same database as the
+// server (JOBS_DB):
+//   npm run cli -- <command> [options]
+// See USAGE for the commands. Exits 0 on success, 1 when a scrape, site check
+// or selector test fails, and 2 when the command line itself is wrong, so a
+// `scrape` run from cron reports failures through its exit code.
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  scrape [site ...]           Scrape the enabled sites, or the named ones
+  jobs                        List stored jobs
+  sites list                  List configured sites
+  sites add <file | ->        Add the sites in a JSON file (a site, an array or a bundle)
+  sites remove <site>         Remove a site
+  sites validate [site | file ...]
+                              Check stored sites, or the sites in JSON files
+  test <site | file>          Try a site's selectors against one page of results
+  users list                  List user accounts
+  users add <username>        Add an account; --admin makes it an admin
+  users password <username>   Set an account's password
+  users remove <username>     Remove an account and everything it saved
+
+Sites are given by name or id. Passwords are read from stdin.
+
+Options:
+  --json                      Print JSON instead of tables
+
+  jobs:
+    --q <text>                Search title, company and location
+    --source <site>  --keyword <term>  --status <active|expired>
+    --from <date>  --to <date>
+    --work-mode <${WORK_MODES.join('|')}>
+    --location <US | US-TN>   Country, or country and state code
+    --near <place>  --within <miles>
+    --sort <newest|oldest|title|company|score>
+    --user <username>         Leave out the jobs this user hid, and show their stage
+    --include-hidden  --hide-excluded
+    --limit <n>  --offset <n>
+
+  test:
+    --term <term>             Search term to build the URL with (default: the site's first)
+    --url <url>               Fetch this URL instead of the site's search URL
+    --html <file>             Read the page from a local file instead of fetching it
+    --limit <n>               Sample jobs to show (default 5)`;
+
+const OPTIONS = {
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  q: { type: 'string' },
+  source: { type: 'string' },
+  keyword: { type: 'string' },
+  status: { type: 'string' },
+  from: { type: 'string' },
+  to: { type: 'string' },
+  'work-mode': { type: 'string' },
+  location: { type: 'string' },
+  near: { type: 'string' },
+  within: { type: 'string' },
+  sort: { type: 'string' },
+  'include-hidden': { type: 'boolean' },
+  'hide-excluded': { type: 'boolean' },
+  limit: { type: 'string' },
+  offset: { type: 'string' },
+  term: { type: 'string' },
+  url: { type: 'string' },
+  html: { type: 'string' },
+  user: { type: 'string' },
+  admin: { type: 'boolean' }
+};
+
+const USAGE_ERROR = 2;
+
+// stdout is kept for the command's own output so --json can be piped; the
+// scraper's progress goes to stderr with the errors
+const log = console.error;
+
+const print = (text) => process.stdout.write(`${text}\n`);
+const printJson = (value) => print(JSON.stringify(value, null, 2));
+
+const usageError = (message) => {
+  console.error(`${message}\nRun "npm run cli -- help" for usage.`);
+  return USAGE_ERROR;
+};
+
+const MAX_COLUMN_WIDTH = 60;
+
+// Print rows of objects as a plain-text table with the given { header, value } columns
+const printTable = (rows, columns) => {
+  const cells = rows.map(row => columns.map(({ value }) => {
+    const text = String(value(row) ?? '');
+    return text.length > MAX_COLUMN_WIDTH ? `${text.slice(0, MAX_COLUMN_WIDTH - 3)}...` : text;
+  }));
+  const widths = columns.map(({ header }, index) =>
+    Math.max(header.length, ...cells.map(row => row[index].length)));
+  const line = (values) => values.map((text, index) => text.padEnd(widths[index])).join('  ').trimEnd();
+  
+  print(line(columns.map(({ header }) => header)));
+  for (const row of cells) print(line(row));
+};
+
+const findSite = (sites, nameOrId) =>
+  sites.find(site => site.id === nameOrId || site.name.toLowerCase() === nameOrId.toLowerCase());
+
+// Sites in a JSON file ("-" for stdin) holding one site, an array of them or
+// a site bundle
+const readSiteFile = (file) => {
+  const data = JSON.parse(fs.readFileSync(file === '-' ? 0 : file, 'utf8'));
+  if (Array.isArray(data)) return data;
+  return Array.isArray(data?.sites) ? data.sites : [data];
+};
+
+// Print each site's field errors; true if every site is valid
+const reportSiteErrors = (sites, { json }) => {
+  const results = sites.map(site => ({ name: site?.name ?? null, errors: siteErrors(site) }));
+  
+  if (json) {
+    printJson(results);
+  } else {
+    for (const { name, errors } of results) {
+      print(`${name || '(unnamed site)'}: ${hasErrors(errors) ? 'invalid' : 'ok'}`);
+      for (const [field, message] of Object.entries(errors)) print(`  ${field}: ${message}`);
+    }
+  }
+  return results.every(({ errors }) => !hasErrors(errors));
+};
+
+// The first line of stdin, prompting for it when stdin is a terminal
+const readPassword = async (prompt) => {
+  if (process.stdin.isTTY) process.stderr.write(prompt);
+  const lines = readline.createInterface({ input: process.stdin, terminal: false });
+  for await (const line of lines) {
+    lines.close();
+    return line;
+  }
+  return '';
+};
+
+const commands = {
+  // Scrape as a recorded run, so it shows in the run history and site health
+  // like scrapes started from the UI. Any failed search term fails the command.
+  scrape: async (storage, args, { json }) => {
+    const sites = storage.sites.list();
+    const unknown = args.filter(arg => !findSite(sites, arg));
+    if (unknown.length > 0) {
+      return usageError(unknown.map(arg => `No site named "${arg}"`).join('\n'));
+    }
+    const selected = args.length > 0
+      ? args.map(arg => findSite(sites, arg))
+      : sites.filter(site => site.enabled !== false);
+    if (selected.length === 0) {
+      console.error('No enabled sites to scrape');
+      return 1;
+    }
+    
+    const finished = new Promise(resolve => onRunFinished(resolve));
+    startRun(storage, selected, tracker => runScraper(storage, selected, tracker, { log }));
+    const run = await finished;
+    
+    if (json) {
+      printJson(run);
+    } else {
+      printTable(run.sites, [
+        { header: 'SITE', value: site => site.name },
+        { header: 'STATUS', value: site => site.status },
+        { header: 'FOUND', value: site => site.jobsFound },
+        { header: 'NEW', value: site => site.newJobs },
+        { header: 'EXCLUDED', value: site => site.excludedJobs },
+        { header: 'BLOCKED', value: site => site.blocked }
+      ]);
+      for (const error of run.errors) {
+        const where = error.site ? `${error.site}${error.term ? ` (${error.term})` : ''}: ` : '';
+        console.error(`Error: ${where}${error.message}`);
+      }
+      print(`Run ${run.status}: ${run.jobsFound} jobs found, ${run.newJobs} new`);
+    }
+    return run.status === 'completed' && run.errors.length === 0 ? 0 : 1;
+  },
+  
+  jobs: async (storage, args, options) => {
+    if (args.length > 0) return usageError(`Unexpected argument "${args[0]}"`);
+    if (options['work-mode'] && !WORK_MODES.includes(options['work-mode'])) {
+      return usageError(`Work mode must be one of ${WORK_MODES.join(', ')}`);
+    }
+    const user = options.user && storage.users.findByUsername(options.user);
+    if (options.user && !user) return usageError(`No user named "${options.user}"`);
+    
+    // The same filters as GET /api/jobs, from the same names
+    const query = {
+      ...options,
+      workMode: options['work-mode'],
+      includeHidden: String(Boolean(options['include-hidden'])),
+      hideExcluded: String(Boolean(options['hide-excluded']))
+    };
+    const error = filtersError(query);
+    if (error) return usageError(error);
+    
+    const filters = parseJobQuery(query);
+    const { jobs, total } = storage.jobs.query({ ...filters, userId: user?.id });
+    const nextOffset = filters.offset + jobs.length < total ? filters.offset + jobs.length : null;
+    
+    if (options.json) {
+      printJson({ jobs, total, offset: filters.offset, limit: filters.limit, nextOffset });
+    } else {
+      printTable(jobs, [
+        { header: 'DATE', value: job => job.date?.slice(0, 10) },
+        { header: 'SCORE', value: job => job.score },
+        { header: 'TITLE', value: job => job.title },
+        { header: 'COMPANY', value: job => job.company },
+        { header: 'LOCATION', value: job => job.location },
+        { header: 'SOURCE', value: job => job.source },
+        ...(user ? [{ header: 'STAGE', value: job => job.userState?.stage }] : []),
+        { header: 'LINK', value: job => job.link }
+      ]);
+      const shown = jobs.length > 0 ? `${filters.offset + 1}-${filters.offset + jobs.length}` : '0';
+      print(`Showing ${shown} of ${total} jobs${nextOffset !== null ? `; next page with --offset ${nextOffset}` : ''}`);
+    }
+    return 0;
+  },
+  
+  sites: async (storage, [action, ...args], options) => {
+    const sites = storage.sites.list();
+    
+    if (action === 'list') {
+      if (options.json) {
+        printJson(sites);
+      } else {
+        printTable(sites, [
+          { header: 'ID', value: site => site.id },
+          { header: 'NAME', value: site => site.name },
+          { header: 'TYPE', value: site => site.type || 'html' },
+          { header: 'ENABLED', value: site => (site.enabled !== false ? 'yes' : 'no') },
+          { header: 'TERMS', value: site => (site.searchTerms || []).join(', ') },
+          { header: 'URL', value: site => site.url }
+        ]);
+      }
+      return 0;
+    }
+    
+    if (action === 'add') {
+      if (args.length !== 1) return usageError('sites add takes one file, or - for stdin');
+      const newSites = readSiteFile(args[0]);
+      // Nothing is added unless every site in the file is valid
+      if (newSites.some(site => hasErrors(siteErrors(site)))) {
+        reportSiteErrors(newSites, options);
+        return 1;
+      }
+      
+      const added = storage.transaction(() =>
+        newSites.map(site => storage.sites.add({ ...toPortable(site), searchTerms: site.searchTerms || [] })));
+      if (added.some(site => site.relevance)) rescoreJobs(storage);
+      
+      if (options.json) {
+        printJson(added);
+      } else {
+        for (const site of added) print(`Added ${site.name} (${site.id})`);
+      }
+      return 0;
+    }
+    
+    if (action === 'remove') {
+      if (args.length !== 1) return usageError('sites remove takes one site');
+      const site = findSite(sites, args[0]);
+      if (!site) {
+        console.error(`No site named "${args[0]}"`);
+        return 1;
+      }
+      
+      storage.sites.remove(site.id);
+      if (options.json) {
+        printJson({ success: true, site });
+      } else {
+        print(`Removed ${site.name} (${site.id})`);
+      }
+      return 0;
+    }
+    
+    if (action === 'validate') {
+      // Stored sites come first, so a site named like a file is still found
+      const toCheck = [];
+      for (const arg of args) {
+        const site = findSite(sites, arg);
+        if (site) {
+          toCheck.push(site);
+        } else if (arg === '-' || fs.existsSync(arg)) {
+          toCheck.push(...readSiteFile(arg));
+        } else {
+          return usageError(`No site or file named "${arg}"`);
+        }
+      }
+      if (args.length === 0) toCheck.push(...sites);
+      return reportSiteErrors(toCheck, options) ? 0 : 1;
+    }
+    
+    return usageError(action ? `Unknown sites command "${action}"` : 'Missing sites command');
+  },
+  
+  // Like POST /api/sites/test, for a stored site or the first site in a JSON
+  // file, optionally against another URL or a saved page
+  test: async (storage, args, options) => {
+    if (args.length !== 1) return usageError('test takes one site or file');
+    if (options.url && options.html) return usageError('Give either --url or --html, not both');
+    
+    let site = findSite(storage.sites.list(), args[0]);
+    if (!site && fs.existsSync(args[0])) site = readSiteFile(args[0])[0];
+    if (!site) return usageError(`No site or file named "${args[0]}"`);
+    
+    // Drafts can be tested before they are named or scheduled
+    const fieldErrors = siteErrors(site);
+    delete fieldErrors.name;
+    delete fieldErrors.searchTerms;
+    delete fieldErrors.schedule;
+    if (hasErrors(fieldErrors)) {
+      console.error(`${site.name || '(unnamed site)'} has invalid fields:`);
+      for (const [field, message] of Object.entries(fieldErrors)) console.error(`  ${field}: ${message}`);
+      return 1;
+    }
+    
+    let fetchPage = fetchSitePage;
+    if (options.html) {
+      const body = fs.readFileSync(options.html, 'utf8');
+      fetchPage = async () => ({ status: 200, data: body, headers: {} });
+    } else if (options.url) {
+      fetchPage = (pageUrl, pageSite, fetchOptions) => fetchSitePage(options.url, pageSite, fetchOptions);
+    }
+    
+    const result = await testSite(site, {
+      term: options.term,
+      limit: Math.min(50, Math.max(1, parseInt(options.limit) || 5)),
+      fetchPage
+    });
+    result.url = options.html || options.url || result.url;
+    
+    if (options.json) {
+      printJson(result);
+    } else {
+      print(`${result.url} (HTTP ${result.httpStatus})\n`);
+      printTable(Object.entries(result.selectors), [
+        { header: 'SELECTOR', value: ([key]) => key },
+        { header: 'MATCHES', value: ([, { matches, error }]) => error || matches }
+      ]);
+      print('');
+      printTable(result.samples, [
+        { header: 'TITLE', value: job => job.title },
+        { header: 'COMPANY', value: job => job.company },
+        { header: 'LOCATION', value: job => job.location },
+        { header: 'LINK', value: job => job.link }
+      ]);
+    }
+    return result.samples.length > 0 ? 0 : 1;
+  },
+  
+  // Accounts for the web app; the CLI itself works on the database directly
+  users: async (storage, [action, username, ...rest], options) => {
+    if (rest.length > 0) return usageError(`Unexpected argument "${rest[0]}"`);
+    
+    if (action === 'list') {
+      const users = storage.users.list();
+      if (options.json) {
+        printJson(users);
+      } else {
+        printTable(users, [
+          { header: 'USERNAME', value: user => user.username },
+          { header: 'ROLE', value: user => user.role },
+          { header: 'CREATED', value: user => user.createdAt.slice(0, 10) },
+          { header: 'ID', value: user => user.id }
+        ]);
+      }
+      return 0;
+    }
+    if (!['add', 'password', 'remove'].includes(action)) {
+      return usageError(action ? `Unknown users command "${action}"` : 'Missing users command');
+    }
+    if (!username) return usageError(`users ${action} takes a username`);
+    
+    const existing = storage.users.findByUsername(username);
+    if (action === 'add' && existing) {
+      console.error(`There is already a user named "${existing.username}"`);
+      return 1;
+    }
+    if (action !== 'add' && !existing) {
+      console.error(`No user named "${username}"`);
+      return 1;
+    }
+    
+    if (action === 'remove') {
+      if (isLastAdmin(storage, existing)) {
+        console.error(`${existing.username} is the only admin; make someone else an admin first`);
+        return 1;
+      }
+      storage.users.remove(existing.id);
+      print(`Removed ${existing.username}`);
+      return 0;
+    }
+    
+    const password = await readPassword('Password: ');
+    const fieldErrors = userErrors({ username, password });
+    if (hasErrors(fieldErrors)) {
+      for (const [field, message] of Object.entries(fieldErrors)) console.error(`${field}: ${message}`);
+      return 1;
+    }
+    const passwordHash = await hashPassword(password);
+    
+    if (action === 'add') {
+      const user = storage.users.add({ username, passwordHash, role: options.admin ? 'admin' : 'user' });
+      if (options.json) {
+        printJson(user);
+      } else {
+        print(`Added ${user.role} ${user.username}`);
+      }
+      return 0;
+    }
+    
+    storage.users.update(existing.id, { passwordHash });
+    storage.sessions.removeForUser(existing.id);
+    print(`Changed the password for ${existing.username}; their sessions were ended`);
+    return 0;
+  }
+};
+
+const run = async () => {
+  let parsed;
+  try {
+    parsed = parseArgs({ options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    return usageError(error.message);
+  }
+  const [command, ...args] = parsed.positionals;
+  
+  if (parsed.values.help || command === 'help') {
+    print(USAGE);
+    return 0;
+  }
+  if (!commands[command]) {
+    return usageError(command ? `Unknown command "${command}"` : 'Missing command');
+  }
+  
+  const storage = openStorage({ defaultSites: getPreset(DEFAULT_PRESET).sites, log });
+  try {
+    return await commands[command](storage, args, parsed.values);
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    return 1;
+  } finally {
+    await closeBrowser();
+    storage.close();
+  }
+};
+
+process.exit(await run());
@@ -0,0 +1,177 @@
+// Groups near-identical listings (the same posting on several boards, or
+// small title variations on one board) under a single canonical job.
+
+// Title similarity (0-1) at or above which two listings are the same posting
+const TITLE_THRESHOLD = 0.85;
+
+// Abbreviations expanded before comparing titles
+const TITLE_ABBREVIATIONS = {
+  sr: 'senior',
+  snr: 'senior',
+  jr: 'junior',
+  mgr: 'manager',
+  eng: 'engineer',
+  engr: 'engineer',
+  dev: 'developer',
+  asst: 'assistant',
+  assoc: 'associate',
+  dir: 'director',
+  coord: 'coordinator',
+  tech: 'technician',
+  i: '1',
+  ii: '2',
+  iii: '3',
+  iv: '4'
+};
+
+// Words that set a posting's seniority. Titles that differ in these, or in
+// level numbers ("Sound Designer I" / "II"), are different postings however
+// alike they read.
+const LEVEL_WORDS = new Set(['senior', 'junior', 'lead', 'principal', 'staff', 'chief', 'head', 'intern', 'entry']);
+
+// Company suffixes that vary between boards
+const COMPANY_SUFFIXES = new Set(['inc', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company', 'gmbh', 'plc', 'the']);
+
+// Location words that describe the work arrangement rather than the place
+const LOCATION_NOISE = new Set(['remote', 'hybrid', 'in', 'work', 'on', 'site', 'onsite', 'united', 'states', 'us', 'usa']);
+
+const tokenize = (text) =>
+  (text || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+
+export const normalizeTitle = (title) =>
+  tokenize(title).map(word => TITLE_ABBREVIATIONS[word] || word).join(' ');
+
+export const normalizeCompany = (company) =>
+  tokenize(company).filter(word => !COMPANY_SUFFIXES.has(word)).join(' ');
+
+// Drops zip codes and remote/hybrid wording, e.g. "Remote in Los Angeles, CA 90028" -> "los angeles ca"
+export const normalizeLocation = (location) =>
+  tokenize(location).filter(word => !LOCATION_NOISE.has(word) && !/^\d{5}$/.test(word)).join(' ');
+
+// Sørensen–Dice coefficient over character bigrams
+const bigrams = (text) => {
+  const result = new Map();
+  const compact = text.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    result.set(pair, (result.get(pair) || 0) + 1);
+  }
+  return result;
+};
+
+export const similarity = (a, b) => {
+  if (a === b) return 1;
+  const aPairs = bigrams(a);
+  const bPairs = bigrams(b);
+  const total = [...aPairs.values(), ...bPairs.values()].reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  
+  let shared = 0;
+  for (const [pair, count] of aPairs) {
+    shared += Math.min(count, bPairs.get(pair) || 0);
+  }
+  return (2 * shared) / total;
+};
+
+const titleLevel = (title) =>
+  title.split(' ').filter(word => LEVEL_WORDS.has(word) || /^\d+$/.test(word)).sort().join(' ');
+
+// Locations are compatible when either is unknown or one contains the other,
+// so "Los Angeles, CA" matches "Los Angeles"
+const locationsMatch = (a, b) => !a || !b || a.includes(b) || b.includes(a);
+
+// Whether two listings could be the same posting at all, whatever their titles
+const compatible = (a, b) => a.level === b.level && locationsMatch(a.location, b.location);
+
+const isSamePosting = (a, b) =>
+  compatible(a, b) && similarity(a.title, b.title) >= TITLE_THRESHOLD;
+
+// Active listings win over expired ones, then the first one seen
+const compareCanonical = (a, b) =>
+  (a.status === 'expired') - (b.status === 'expired') ||
+  new Date(a.firstSeen) - new Date(b.firstSeen) ||
+  a.id.localeCompare(b.id);
+
+// Group jobs into postings. Returns a list of groups, each sorted so the
+// canonical job comes first.
+export const groupDuplicates = (jobs) => {
+  const parent = new Map(jobs.map(job => [job.id, job.id]));
+  const find = (id) => {
+    while (parent.get(id) !== id) {
+      parent.set(id, parent.get(parent.get(id)));
+      id = parent.get(id);
+    }
+    return id;
+  };
+  // Members of each group, by root id. Groups are only merged when all their
+  // members are compatible, so a listing without a location can't chain
+  // postings in two different cities together.
+  const members = new Map();
+  
+  // Only listings from the same company can be the same posting
+  const byCompany = new Map();
+  for (const job of jobs) {
+    const key = normalizeCompany(job.company);
+    const title = normalizeTitle(job.title);
+    const normalized = { job, title, level: titleLevel(title), location: normalizeLocation(job.location) };
+    members.set(job.id, [normalized]);
+    byCompany.set(key, [...(byCompany.get(key) || []), normalized]);
+  }
+  
+  for (const [company, entries] of byCompany) {
+    // Without a company name there's too little to go on
+    if (!company) continue;
+    
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        if (!isSamePosting(entries[i], entries[j])) continue;
+        
+        const a = find(entries[i].job.id);
+        const b = find(entries[j].job.id);
+        if (a === b) continue;
+        if (members.get(a).every(x => members.get(b).every(y => compatible(x, y)))) {
+          parent.set(a, b);
+          members.set(b, [...members.get(b), ...members.get(a)]);
+          members.delete(a);
+        }
+      }
+    }
+  }
+  
+  const groups = new Map();
+  for (const job of jobs) {
+    const root = find(job.id);
+    groups.set(root, [...(groups.get(root) || []), job]);
+  }
+  
+  return [...groups.values()].map(group => group.sort(compareCanonical));
+};
+
+// Recompute duplicate groups over all stored jobs. The canonical job of each
+// group gets a `sources` list covering every member; the others point to it
+// through `duplicateOf`. Returns only the jobs whose grouping changed.
+export const dedupeJobs = (jobs) => {
+  const changed = [];
+  
+  for (const [canonical, ...duplicates] of groupDuplicates(jobs)) {
+    const sources = [canonical, ...duplicates].map(job => ({ id: job.id, source: job.source, link: job.link }));
+    
+    if (canonical.duplicateOf || JSON.stringify(canonical.sources || []) !== JSON.stringify(sources)) {
+      changed.push({ ...canonical, duplicateOf: null, sources });
+    }
+    for (const duplicate of duplicates) {
+      if (duplicate.duplicateOf !== canonical.id || duplicate.sources) {
+        const rest = { ...duplicate };
+        delete rest.sources;
+        changed.push({ ...rest, duplicateOf: canonical.id });
+      }
+    }
+  }
+  
+  return changed;
+};
@@ -0,0 +1,93 @@
+// Job export formats for /api/jobs/export. Each one writes a header, then
+// every job in turn, then a footer, so large exports can be streamed.
+
+// Jobs fetched from storage per batch while exporting
+const EXPORT_BATCH_SIZE = 500;
+
+// Columns written to CSV exports; JSON formats carry whole jobs
+const CSV_COLUMNS = [
+  ['id', job => job.id],
+  ['title', job => job.title],
+  ['company', job => job.company],
+  ['location', job => job.location],
+  ['workMode', job => job.workMode],
+  ['link', job => job.link],
+  ['source', job => job.source],
+  ['keyword', job => job.keyword],
+  ['status', job => job.status],
+  ['firstSeen', job => job.firstSeen],
+  ['lastSeen', job => job.lastSeen],
+  ['postedDate', job => job.postedDate],
+  ['salary', job => job.salary],
+  ['employmentType', job => job.employmentType],
+  ['stage', job => job.userState?.stage],
+  ['appliedAt', job => job.userState?.appliedAt]
+];
+
+// Quote a CSV field when needed. Values that a spreadsheet would treat as a
+// formula get a leading apostrophe so opening an export can't run anything.
+const csvField = (value) => {
+  let text = value == null ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLine = (values) => `${values.map(csvField).join(',')}\r\n`;
+
+export const EXPORT_FORMATS = {
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    header: () => csvLine(CSV_COLUMNS.map(([name]) => name)),
+    item: (job) => csvLine(CSV_COLUMNS.map(([, read]) => read(job))),
+    footer: () => ''
+  },
+  json: {
+    contentType: 'application/json; charset=utf-8',
+    header: () => '[\n',
+    item: (job, index) => `${index > 0 ? ',\n' : ''}${JSON.stringify(job)}`,
+    footer: (count) => (count > 0 ? '\n]\n' : ']\n')
+  },
+  ndjson: {
+    contentType: 'application/x-ndjson; charset=utf-8',
+    header: () => '',
+    item: (job) => `${JSON.stringify(job)}\n`,
+    footer: () => ''
+  }
+};
+
+// Wait until `out` wants more data after write() returned false. Resolves
+// false if it closed first, e.g. when the client went away mid-download.
+const drained = (out) => new Promise(resolve => {
+  const done = (open) => {
+    out.off('drain', onDrain);
+    out.off('close', onClose);
+    resolve(open);
+  };
+  const onDrain = () => done(true);
+  const onClose = () => done(false);
+  out.on('drain', onDrain);
+  out.on('close', onClose);
+});
+
+// Write every job matching the filters to `out` (a writable stream such as an
+// Express response) in the given format, waiting whenever its buffer is full
+// so a large export is never held in memory. Paging in the filters is ignored.
+// Resolves with the number of jobs written.
+export const writeJobExport = async (storage, filters, format, out) => {
+  const { header, item, footer } = EXPORT_FORMATS[format];
+  let count = 0;
+  
+  out.write(header());
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const { jobs } = storage.jobs.query({ ...filters, limit: EXPORT_BATCH_SIZE, offset });
+    for (const job of jobs) {
+      if (!out.write(item(job, count++)) && !(await drained(out))) return count;
+    }
+    if (jobs.length < EXPORT_BATCH_SIZE) break;
+  }
+  out.end(footer(count));
+  
+  return count;
+};
@@ -0,0 +1,70 @@
+import * as cheerio from 'cheerio';
+
+// Resolve a possibly relative link against the site's origin
+export const resolveLink = (site, link) => {
+  if (link && !link.startsWith('http')) {
+    const baseUrl = new URL(site.url).origin;
+    return `${baseUrl}${link.startsWith('/') ? '' : '/'}${link}`;
+  }
+  return link;
+};
+
+// Element text with line breaks kept between block elements
+export const blockText = ($, el) => {
+  const copy = $(el).clone();
+  copy.find('br').replaceWith('\n');
+  copy.find('p, li, div, h1, h2, h3, h4, h5, h6, tr').after('\n');
+  return copy.text()
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// Plain text from a string that may hold an HTML fragment, as feeds and APIs
+// often return descriptions that way
+export const htmlToText = (value) => {
+  if (!value) return '';
+  if (!/<[a-z!/]/i.test(value)) return value.trim();
+  const $ = cheerio.load(`<body>${value}</body>`);
+  return blockText($, $('body'));
+};
+
+// Turn "Posted 3 days ago", "Just posted", "30+ days ago" or a date string into
+// an ISO timestamp; null if it can't be understood
+export const parsePostedDate = (text, now = new Date()) => {
+  const value = (text || '').trim().toLowerCase();
+  if (!value) return null;
+  
+  if (/just posted|today|just now|moments? ago/.test(value)) {
+    return now.toISOString();
+  }
+  if (/yesterday/.test(value)) {
+    return new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
+  }
+  
+  const relative = value.match(/(\d+)\+?\s*(minute|hour|day|week|month)s?\s+ago/);
+  if (relative) {
+    const unitMs = {
+      minute: 60 * 1000,
+      hour: 60 * 60 * 1000,
+      day: 24 * 60 * 60 * 1000,
+      week: 7 * 24 * 60 * 60 * 1000,
+      month: 30 * 24 * 60 * 60 * 1000
+    }[relative[2]];
+    return new Date(now.getTime() - parseInt(relative[1]) * unitMs).toISOString();
+  }
+  
+  const parsed = Date.parse(value.replace(/^(posted|date posted)[:\s]*/, ''));
+  return isNaN(parsed) ? null : new Date(parsed).toISOString();
+};
+
+// Count how many elements a selector matches, reporting invalid selectors
+// instead of throwing
+export const countMatches = (find) => {
+  try {
+    return { matches: find().length, error: null };
+  } catch (error) {
+    return { matches: 0, error: error.message };
+  }
+};
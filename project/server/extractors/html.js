@@ -0,0 +1,51 @@
+import * as cheerio from 'cheerio';
+import { resolveLink, countMatches } from './common.js';
+
+// HTML results pages, read with the CSS selectors in site.selectors
+
+// Pull the listing fields out of every job container on a results page
+const extractListings = ($, site) =>
+  $(site.selectors.jobContainer).map((i, el) => ({
+    title: $(el).find(site.selectors.title).text().trim(),
+    company: $(el).find(site.selectors.company).text().trim(),
+    location: $(el).find(site.selectors.location).text().trim(),
+    link: resolveLink(site, $(el).find(site.selectors.link).attr('href'))
+  })).get();
+
+export const parsePage = (site, body, pageUrl) => {
+  const $ = cheerio.load(body);
+  const nextSelector = site.pagination?.nextPageSelector;
+  const nextHref = nextSelector ? $(nextSelector).first().attr('href') : null;
+  
+  return {
+    listings: extractListings($, site),
+    nextPageUrl: nextHref ? new URL(nextHref, pageUrl).toString() : null
+  };
+};
+
+// Report what each selector matched on a results page, with sample listings
+export const testPage = (site, body, limit) => {
+  const $ = cheerio.load(body);
+  const container = countMatches(() => $(site.selectors.jobContainer));
+  const selectors = { jobContainer: container };
+  let samples = [];
+  
+  if (!container.error) {
+    const containers = $(site.selectors.jobContainer).toArray();
+    for (const key of ['title', 'company', 'location', 'link']) {
+      // Number of containers in which the selector found something
+      selectors[key] = countMatches(() =>
+        containers.filter(el => $(el).find(site.selectors[key]).length > 0)
+      );
+    }
+    if (Object.values(selectors).every(result => !result.error)) {
+      samples = extractListings($, site).slice(0, limit);
+    }
+  }
+  
+  if (site.pagination?.nextPageSelector) {
+    selectors.nextPageSelector = countMatches(() => $(site.pagination.nextPageSelector));
+  }
+  
+  return { selectors, samples };
+};
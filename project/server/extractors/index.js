@@ -0,0 +1,14 @@
+import * as html from './html.js';
+import * as json from './json.js';
+import * as rss from './rss.js';
+
+// Extractors by site type; shared/siteSchema.js checks each type's config.
+// Each one exports:
+//   parsePage(site, body, pageUrl) - { listings, nextPageUrl } for a fetched results page
+//   testPage(site, body, limit)    - { selectors, samples } describing what matched
+// Listings carry title, company, location and link, plus any of description,
+// salary, employmentType and postedDate the source provides.
+const extractors = { html, json, rss };
+
+// Sites saved before types existed have no type and are HTML
+export const getExtractor = (site) => extractors[site.type || 'html'] || null;
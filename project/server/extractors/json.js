@@ -0,0 +1,94 @@
+import { resolveLink, htmlToText, parsePostedDate } from './common.js';
+
+// JSON APIs, read with the dotted field paths in site.json:
+//   { itemsPath: 'data.results', fields: { title: 'title', company: 'company.name', ... }, nextPagePath? }
+
+const OPTIONAL_FIELDS = ['description', 'salary', 'employmentType', 'postedDate'];
+
+// Read a path such as "company.name" or "locations[0].city" from a value;
+// an empty path returns the value itself
+export const getPath = (value, path) => {
+  if (!path) return value;
+  return path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean)
+    .reduce((current, key) => (current == null ? undefined : current[key]), value);
+};
+
+// Flatten a field value to text; arrays (e.g. several locations) are joined
+const toText = (value) => {
+  if (value == null || typeof value === 'object' && !Array.isArray(value)) return '';
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join(', ');
+  return String(value).trim();
+};
+
+// Posting dates may be ISO strings or epoch seconds/milliseconds
+const toPostedDate = (value) => {
+  if (typeof value === 'number') {
+    return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+  }
+  return parsePostedDate(toText(value));
+};
+
+const parseBody = (body) => (typeof body === 'string' ? JSON.parse(body) : body);
+
+const listItems = (site, data) => {
+  const items = getPath(data, site.json.itemsPath);
+  return Array.isArray(items) ? items : [];
+};
+
+const readField = (item, path) => (path ? toText(getPath(item, path)) : '');
+
+const toListing = (site, item) => {
+  const { fields } = site.json;
+  const listing = {
+    title: readField(item, fields.title),
+    company: readField(item, fields.company),
+    location: readField(item, fields.location),
+    link: resolveLink(site, readField(item, fields.link))
+  };
+  
+  for (const field of OPTIONAL_FIELDS) {
+    if (!fields[field]) continue;
+    const raw = getPath(item, fields[field]);
+    const value = field === 'postedDate'
+      ? toPostedDate(raw)
+      : field === 'description' ? htmlToText(toText(raw)) : toText(raw);
+    if (value) listing[field] = value;
+  }
+  
+  return listing;
+};
+
+export const parsePage = (site, body, pageUrl) => {
+  const data = parseBody(body);
+  const nextLink = site.json.nextPagePath ? toText(getPath(data, site.json.nextPagePath)) : '';
+  
+  return {
+    listings: listItems(site, data).map(item => toListing(site, item)),
+    nextPageUrl: nextLink ? new URL(nextLink, pageUrl).toString() : null
+  };
+};
+
+// Report how many items were found and in how many each field path had a value
+export const testPage = (site, body, limit) => {
+  let data;
+  try {
+    data = parseBody(body);
+  } catch (error) {
+    return { selectors: { items: { matches: 0, error: `Response is not valid JSON: ${error.message}` } }, samples: [] };
+  }
+  
+  const items = listItems(site, data);
+  const selectors = { items: { matches: items.length, error: null } };
+  for (const [field, path] of Object.entries(site.json.fields)) {
+    if (!path) continue;
+    selectors[field] = { matches: items.filter(item => readField(item, path)).length, error: null };
+  }
+  if (site.json.nextPagePath) {
+    selectors.nextPagePath = { matches: getPath(data, site.json.nextPagePath) ? 1 : 0, error: null };
+  }
+  
+  return { selectors, samples: items.slice(0, limit).map(item => toListing(site, item)) };
+};
@@ -0,0 +1,68 @@
+import * as cheerio from 'cheerio';
+import { htmlToText, parsePostedDate } from './common.js';
+
+// RSS 2.0 and Atom feeds; everything is read from the standard elements, so
+// these sites need no configuration beyond the URL
+
+// Text of the first child element matching any of the selectors, in order
+const firstText = (entry, selectors) => {
+  for (const selector of selectors) {
+    const text = entry.children(selector).first().text().trim();
+    if (text) return text;
+  }
+  return '';
+};
+
+// Atom links are <link href="..."/> (preferring rel="alternate"); RSS links are element text
+const entryLink = (entry) => {
+  const links = entry.children('link');
+  const alternate = links.filter((i, el) => !el.attribs.rel || el.attribs.rel === 'alternate').first();
+  const link = alternate.length ? alternate : links.first();
+  return (link.attr('href') || link.text()).trim();
+};
+
+// Atom authors wrap their name in <name>; RSS authors are plain text
+const entryAuthor = (entry) => {
+  const author = entry.children('author').first();
+  return (author.children('name').text() || author.text()).trim();
+};
+
+const toListing = ($, el) => {
+  const entry = $(el);
+  const listing = {
+    title: htmlToText(firstText(entry, ['title'])),
+    company: firstText(entry, ['company', 'job\\:company']) || entryAuthor(entry) || firstText(entry, ['dc\\:creator']),
+    location: firstText(entry, ['location', 'job\\:location']),
+    link: entryLink(entry)
+  };
+  
+  const description = htmlToText(firstText(entry, ['content\\:encoded', 'description', 'content', 'summary']));
+  if (description) listing.description = description;
+  
+  const postedDate = parsePostedDate(firstText(entry, ['pubDate', 'published', 'updated', 'dc\\:date']));
+  if (postedDate) listing.postedDate = postedDate;
+  
+  return listing;
+};
+
+const loadFeed = (body) => cheerio.load(body, { xml: true });
+
+const extractListings = ($) => $('item, entry').map((i, el) => toListing($, el)).get();
+
+export const parsePage = (site, body) => ({
+  listings: extractListings(loadFeed(body)),
+  nextPageUrl: null
+});
+
+// Report how many feed items were found, with sample listings
+export const testPage = (site, body, limit) => {
+  const $ = loadFeed(body);
+  const listings = extractListings($);
+  
+  return {
+    selectors: {
+      items: { matches: listings.length, error: $('rss, feed, rdf\\:RDF').length ? null : 'Response is not an RSS or Atom feed' }
+    },
+    samples: listings.slice(0, limit)
+  };
+};
@@ -0,0 +1,111 @@
+import { politeFetch } from '../requestScheduler.js';
+
+// Sites whose listings are rendered client-side can have their pages loaded in
+// headless Chrome (puppeteer) before the selectors run:
+//   site.render = { mode: 'browser', waitFor, scrollCount, scrollDelayMs, timeoutMs }
+// waitFor is a CSS selector that must appear before the page is read, and
+// scrollCount scrolls to the bottom that many times, waiting scrollDelayMs
+// after each, for boards that load more listings as you scroll. Requests still
+// go through politeFetch, so the site's politeness settings apply as usual.
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_SCROLL_DELAY_MS = 1000;
+
+// The browser is closed once no page has been loaded for this long
+const IDLE_CLOSE_MS = parseInt(process.env.BROWSER_IDLE_MS) || 60 * 1000;
+
+// puppeteer is only loaded when a site first needs it. BROWSER_NO_SANDBOX=true
+// is needed to run Chrome as root, e.g. in most containers.
+const launchChrome = async () => {
+  const { default: puppeteer } = await import('puppeteer');
+  return puppeteer.launch({
+    headless: true,
+    args: process.env.BROWSER_NO_SANDBOX === 'true' ? ['--no-sandbox', '--disable-setuid-sandbox'] : []
+  });
+};
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Non-2xx answers are thrown the way axios throws them, so politeFetch can
+// back off from 403s and 429s
+const statusError = (url, response) => {
+  const error = new Error(`Request failed with status code ${response.status()}: ${url}`);
+  error.response = { status: response.status(), headers: response.headers() };
+  return error;
+};
+
+// Load a page in the browser and return the rendered HTML like an axios
+// response. Conditional request headers are left off, since the rendered page
+// is compared by the response cache instead.
+const renderPage = async (browser, url, settings, render) => {
+  const timeout = render.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const page = await browser.newPage();
+  try {
+    await page.setUserAgent(settings.userAgent);
+    const response = await page.goto(url, { waitUntil: 'networkidle2', timeout });
+    if (response && (response.status() < 200 || response.status() >= 300)) {
+      throw statusError(url, response);
+    }
+    
+    if (render.waitFor) {
+      await page.waitForSelector(render.waitFor, { timeout });
+    }
+    for (let scroll = 0; scroll < (render.scrollCount || 0); scroll++) {
+      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+      await wait(render.scrollDelayMs ?? DEFAULT_SCROLL_DELAY_MS);
+    }
+    
+    return {
+      status: response?.status() ?? 200,
+      data: await page.content(),
+      headers: { 'content-type': 'text/html; charset=utf-8' }
+    };
+  } finally {
+    await page.close();
+  }
+};
+
+// A fetchPage that renders pages in a browser started by launch(), which
+// resolves to a puppeteer-like Browser. Tests can pass their own launch, e.g.
+// one pointing Chrome at a local server. close() shuts the browser down.
+export const createBrowserFetcher = ({ launch = launchChrome } = {}) => {
+  let browser = null;
+  let openPages = 0;
+  let idleTimer = null;
+  
+  const close = async () => {
+    clearTimeout(idleTimer);
+    const closing = browser;
+    browser = null;
+    if (closing) await (await closing).close();
+  };
+  
+  const fetchPage = (url, site, { onBlocked } = {}) =>
+    politeFetch(url, site, {
+      onBlocked,
+      get: async (pageUrl, settings) => {
+        clearTimeout(idleTimer);
+        openPages++;
+        try {
+          // A failed launch isn't kept, so the next page tries again
+          browser ??= launch().catch(error => {
+            browser = null;
+            throw error;
+          });
+          return await renderPage(await browser, pageUrl, settings, site.render ?? {});
+        } finally {
+          if (--openPages === 0) {
+            idleTimer = setTimeout(close, IDLE_CLOSE_MS);
+            idleTimer.unref?.();
+          }
+        }
+      }
+    });
+  
+  return { fetchPage, close };
+};
+
+const sharedFetcher = createBrowserFetcher();
+
+export const browserFetch = sharedFetcher.fetchPage;
+export const closeBrowser = sharedFetcher.close;
@@ -0,0 +1,26 @@
+import { politeFetch } from '../requestScheduler.js';
+import { browserFetch } from './browser.js';
+
+// Fetchers by site render mode (site.render.mode); shared/siteSchema.js lists
+// the modes. Each one is a fetchPage as described in scraper.js:
+//   static  - plain HTTP through the request scheduler
+//   browser - rendered in headless Chrome first (see ./browser.js)
+const fetchers = { static: politeFetch, browser: browserFetch };
+
+// Sites saved before render modes existed are fetched as served
+export const renderModeOf = (site) => site?.render?.mode || 'static';
+
+// A fetchPage that hands each page to the fetcher for its site's render mode.
+// `overrides` replaces the fetchers for some modes, e.g. { browser } in tests.
+export const createSiteFetcher = (overrides = {}) => {
+  const byMode = { ...fetchers, ...overrides };
+  return (url, site, options) => {
+    const fetchPage = byMode[renderModeOf(site)];
+    if (!fetchPage) {
+      return Promise.reject(new Error(`Unknown render mode "${renderModeOf(site)}" for ${site.name}`));
+    }
+    return fetchPage(url, site, options);
+  };
+};
+
+export const fetchSitePage = createSiteFetcher();
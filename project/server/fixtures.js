@@ -0,0 +1,123 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createSqliteStorage } from './storage/sqlite.js';
+import { scrapeJobs, fetchMissingDetails } from './scraper.js';
+import { fetchSitePage } from './fetchers/index.js';
+import { toPortable } from './siteBundles.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Fixtures record every response a site's scrape received, so the scrape can be
+// replayed offline and its results compared with what was extracted at the time:
+//   { format: 'job-scraper-fixture', version: 1, recordedAt, site,
+//     responses: [{ url, status, contentType, body }], jobs: [...] }
+// They live in server/fixtures, one file per site, and server/test replays them.
+export const FIXTURE_FORMAT = 'job-scraper-fixture';
+export const FIXTURE_VERSION = 1;
+
+export const FIXTURES_DIR = process.env.FIXTURES_DIR || path.join(__dirname, 'fixtures');
+
+// Job fields that change on every scrape and so aren't compared
+const VOLATILE_FIELDS = ['date', 'detailFetchedAt'];
+
+export const fixtureFileName = (site) =>
+  `${site.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}.json`;
+
+// A job as stored in a fixture: everything the scrape extracted except the
+// fields that differ between runs
+export const fixtureJob = (job) => {
+  const fields = { ...job };
+  for (const field of VOLATILE_FIELDS) {
+    delete fields[field];
+  }
+  return fields;
+};
+
+// A fetchPage that answers from recorded responses only. URLs that weren't
+// recorded fail the way an unreachable page would.
+export const replayFetcher = (responses) => {
+  const byUrl = new Map(responses.map(response => [response.url, response]));
+  return async (url) => {
+    const recorded = byUrl.get(url);
+    if (!recorded) {
+      throw new Error(`No recorded response for ${url}`);
+    }
+    return {
+      status: recorded.status,
+      data: recorded.body,
+      headers: { 'content-type': recorded.contentType }
+    };
+  };
+};
+
+// Wrap a fetchPage so every response it returns is appended to `responses`
+export const recordingFetcher = (responses, fetchPage = fetchSitePage) =>
+  async (url, site, options) => {
+    const response = await fetchPage(url, site, options);
+    responses.push({
+      url,
+      status: response.status,
+      contentType: response.headers['content-type'] ?? null,
+      body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data)
+    });
+    return response;
+  };
+
+// Scrape a site's search results and detail pages the way a run does, against
+// a throwaway database so nothing stored or cached affects what's fetched
+const scrapeSite = async (site, fetchPage) => {
+  const storage = createSqliteStorage(':memory:');
+  try {
+    const jobs = await scrapeJobs(storage, site, undefined, { fetchPage });
+    await fetchMissingDetails(storage, site, jobs, undefined, { fetchPage });
+    return jobs;
+  } finally {
+    storage.close();
+  }
+};
+
+// Scrape a site live and return a fixture of what it fetched and extracted
+export const recordFixture = async (site, { fetchPage = fetchSitePage } = {}) => {
+  const responses = [];
+  const jobs = await scrapeSite(site, recordingFetcher(responses, fetchPage));
+  
+  return {
+    format: FIXTURE_FORMAT,
+    version: FIXTURE_VERSION,
+    recordedAt: new Date().toISOString(),
+    site: toPortable(site),
+    responses,
+    jobs: jobs.map(fixtureJob)
+  };
+};
+
+// Scrape a fixture's recorded responses, with the fixture's own site config
+// unless another is given, and return the jobs as fixtureJob() stores them
+export const replayFixture = async (fixture, site = fixture.site) =>
+  (await scrapeSite(site, replayFetcher(fixture.responses))).map(fixtureJob);
+
+export const saveFixture = (fixture, dir = FIXTURES_DIR) => {
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, fixtureFileName(fixture.site));
+  fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  return file;
+};
+
+// Every fixture in the directory as { file, fixture }; a missing directory has none
+export const loadFixtures = (dir = FIXTURES_DIR) => {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const fixture = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+      if (fixture.format !== FIXTURE_FORMAT) {
+        throw new Error(`${file} is not a scrape fixture (expected format "${FIXTURE_FORMAT}")`);
+      }
+      if (fixture.version > FIXTURE_VERSION) {
+        throw new Error(`${file} has fixture version ${fixture.version}, newer than supported (${FIXTURE_VERSION})`);
+      }
+      return { file, fixture };
+    });
+};
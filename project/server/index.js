@@ -1,192 +1,304 @@
 import express from 'express';
-import cors from 'cors';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
-import cron from 'node-cron';
-import fs from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
+import cors from 'cors';
+import { openStorage } from './storage/index.js';
+import { runScraper, testSite, getSearchTerms } from './scraper.js';
+import { startRun, getRun, getActiveRun, listRuns, getSiteHealth, subscribe, onRunFinished } from './runs.js';
+import { cleanFilters } from './savedSearches.js';
+import { EXPORT_FORMATS, writeJobExport } from './exporters.js';
+import { siteErrors, hasErrors } from './siteValidation.js';
+import { DEFAULT_PRESET, createBundle, validateBundle, diffBundle, importBundle, listPresets, getPreset, toPortable } from './siteBundles.js';
+import { recordFixture, saveFixture } from './fixtures.js';
+import { getRelevanceRules, saveRelevanceRules, rescoreJobs } from './relevance.js';
+import { validateRelevance } from '../shared/relevance.js';
+import { locateJobs, placeNames, locationLabel } from './locations.js';
+import { MAX_PAGE_SIZE, parseJobQuery, filtersError } from './jobQuery.js';
+import { CHANNELS, sendTest, webhookUrlError } from './notifications/index.js';
+import { DEFAULT_SCHEDULE, rebuildSchedules, drainPending, getNextRun, stopSchedules } from './scheduler.js';
+import { closeBrowser } from './fetchers/browser.js';
+import { hashPassword, verifyPassword, userErrors, isLastAdmin, createSession, endSession, requestToken, setSessionCookie, clearSessionCookie, authenticate, requireUser, requireAdmin } from './auth.js';
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const app = express();
 const PORT = 3001;
 
-app.use(cors());
+// The web app signs in with a cookie, so only its own origins may send
+// credentialed requests
+const ALLOWED_ORIGINS = (process.env.CORS_ORIGINS || 'http://localhost:5173,http://localhost:4173')
+  .split(',').map(origin => origin.trim());
+
+app.use(cors({ origin: ALLOWED_ORIGINS, credentials: true }));
 app.use(express.json());
 
-// File to store job listings
-const JOBS_FILE = path.join(__dirname, 'jobs.json');
-
-// File to store website configurations
-const SITES_FILE = path.join(__dirname, 'sites.json');
-
-// Initialize files if they don't exist
-if (!fs.existsSync(JOBS_FILE)) {
-  fs.writeFileSync(JOBS_FILE, JSON.stringify([]));
-}
-
-if (!fs.existsSync(SITES_FILE)) {
-  const initialSites = [
-    {
-      name: 'Indeed',
-      url: 'https://www.indeed.com/jobs?q=',
-      searchTerms: ['music', 'audio', 'sound designer', 'sound design'],
-      selectors: {
-        jobContainer: '.job_seen_beacon',
-        title: '.jobTitle',
-        company: '.companyName',
-        location: '.companyLocation',
-        link: '.jcs-JobTitle'
-      }
-    },
-    {
-      name: 'LinkedIn',
-      url: 'https://www.linkedin.com/jobs/search/?keywords=',
-      searchTerms: ['music', 'audio', 'sound designer', 'sound design'],
-      selectors: {
-        jobContainer: '.job-search-card',
-        title: '.base-search-card__title',
-        company: '.base-search-card__subtitle',
-        location: '.job-search-card__location',
-        link: '.base-card__full-link'
-      }
-    }
-  ];
-  fs.writeFileSync(SITES_FILE, JSON.stringify(initialSites, null, 2));
-}
+// Fresh installs without a sites.json to migrate start from the default preset
+const storage = openStorage({ defaultSites: getPreset(DEFAULT_PRESET).sites });
+
+// Jobs stored before relevance scoring existed have no score yet
+rescoreJobs(storage);
+// Nor, before locations were parsed, a city or work mode
+locateJobs(storage);
+
+// Start a background scrape of the enabled sites, optionally limited to the
+// given site ids; null if a scrape is already running
+const startScrape = (siteIds = null) => {
+  const sites = storage.sites.list()
+    .filter(site => site.enabled !== false)
+    .filter(site => !siteIds || siteIds.includes(site.id));
+  return startRun(storage, sites, tracker => runScraper(storage, sites, tracker));
+};
+
+// Recreate the per-site schedules from the current site list
+const refreshSchedules = () => {
+  rebuildSchedules(storage.sites.list(), startScrape);
+};
 
-// Load websites configuration
-const loadSites = () => {
+refreshSchedules();
+onRunFinished(drainPending);
+
+app.use(authenticate(storage));
+
+// Health check, open so the app can tell the server is up before signing in
+app.head('/api/jobs', (req, res) => {
+  res.status(200).end();
+});
+
+// Who is signed in, and whether the first (admin) account still has to be created
+app.get('/api/auth/session', (req, res) => {
   try {
-    const data = fs.readFileSync(SITES_FILE, 'utf8');
-    return JSON.parse(data);
+    res.json({ user: req.user, setupRequired: storage.users.count() === 0 });
   } catch (error) {
-    console.error('Error loading sites:', error);
-    return [];
+    console.error('Error serving session:', error);
+    res.status(500).json({ error: 'Failed to load session' });
   }
+});
+
+// Sign the new user in; the token is also returned for scripts to send as a
+// bearer token
+const startSession = (res, user) => {
+  const token = createSession(storage, user);
+  setSessionCookie(res, token);
+  return { user, token };
 };
 
-// Load job listings
-const loadJobs = () => {
+// Create the first account, which is an admin. Only allowed while there are no accounts.
+app.post('/api/auth/setup', async (req, res) => {
+  const { username, password } = req.body || {};
+  const fieldErrors = userErrors({ username, password });
+  if (hasErrors(fieldErrors)) {
+    return res.status(400).json({ error: 'Account has invalid fields', fieldErrors });
+  }
+  
   try {
-    const data = fs.readFileSync(JOBS_FILE, 'utf8');
-    return JSON.parse(data);
+    if (storage.users.count() > 0) {
+      return res.status(409).json({ error: 'An admin account already exists' });
+    }
+    
+    // Checked again as the account is added, in case another setup ran meanwhile
+    const user = storage.users.addFirstAdmin({ username, passwordHash: await hashPassword(password) });
+    if (!user) {
+      return res.status(409).json({ error: 'An admin account already exists' });
+    }
+    res.status(201).json(startSession(res, user));
   } catch (error) {
-    console.error('Error loading jobs:', error);
-    return [];
+    console.error('Error creating admin account:', error);
+    res.status(500).json({ error: 'Failed to create account' });
   }
-};
+});
 
-// Save job listings
-const saveJobs = (jobs) => {
+app.post('/api/auth/login', async (req, res) => {
+  const { username, password } = req.body || {};
+  
   try {
-    fs.writeFileSync(JOBS_FILE, JSON.stringify(jobs, null, 2));
+    const account = typeof username === 'string' ? storage.users.findByUsername(username) : null;
+    // The hash is checked even for an unknown username, so the response time
+    // doesn't give away which usernames exist
+    const passwordMatches = await verifyPassword(password, account?.passwordHash);
+    if (!account || !passwordMatches) {
+      return res.status(401).json({ error: 'Wrong username or password' });
+    }
+    
+    res.json(startSession(res, storage.users.get(account.id)));
   } catch (error) {
-    console.error('Error saving jobs:', error);
+    console.error('Error signing in:', error);
+    res.status(500).json({ error: 'Failed to sign in' });
   }
-};
+});
 
-// Save website configurations
-const saveSites = (sites) => {
+app.post('/api/auth/logout', (req, res) => {
   try {
-    fs.writeFileSync(SITES_FILE, JSON.stringify(sites, null, 2));
+    const token = requestToken(req);
+    if (token) endSession(storage, token);
+    clearSessionCookie(res);
+    res.json({ success: true });
   } catch (error) {
-    console.error('Error saving sites:', error);
+    console.error('Error signing out:', error);
+    res.status(500).json({ error: 'Failed to sign out' });
   }
-};
+});
 
-// Scrape job listings from a website
-const scrapeJobs = async (site) => {
-  const jobs = [];
-  
-  for (const term of site.searchTerms) {
-    try {
-      const searchUrl = `${site.url}${encodeURIComponent(term)}`;
-      console.log(`Scraping ${site.name} for "${term}" at ${searchUrl}`);
-      
-      const response = await axios.get(searchUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        },
-        timeout: 10000 // 10 second timeout
-      });
-      
-      const $ = cheerio.load(response.data);
-      
-      $(site.selectors.jobContainer).each((i, el) => {
-        const title = $(el).find(site.selectors.title).text().trim();
-        const company = $(el).find(site.selectors.company).text().trim();
-        const location = $(el).find(site.selectors.location).text().trim();
-        let link = $(el).find(site.selectors.link).attr('href');
-        
-        // Handle relative URLs
-        if (link && !link.startsWith('http')) {
-          const baseUrl = new URL(site.url).origin;
-          link = `${baseUrl}${link}`;
-        }
-        
-        if (title) {
-          jobs.push({
-            id: `${site.name}-${title}-${company}`.replace(/[^a-zA-Z0-9]/g, '-'),
-            title,
-            company,
-            location,
-            link,
-            source: site.name,
-            keyword: term,
-            date: new Date().toISOString()
-          });
-        }
-      });
-    } catch (error) {
-      console.error(`Error scraping ${site.name} for "${term}":`, error.message);
-    }
+// Everything below needs a signed-in user
+app.use('/api', requireUser);
+
+// API endpoints
+app.get('/api/jobs', (req, res) => {
+  const error = filtersError(req.query);
+  if (error) {
+    return res.status(400).json({ error });
   }
   
-  return jobs;
-};
+  try {
+    const filters = parseJobQuery(req.query);
+    const { jobs, total } = storage.jobs.query({ ...filters, userId: req.user.id });
+    const nextOffset = filters.offset + jobs.length < total ? filters.offset + jobs.length : null;
+    
+    res.json({ jobs, total, offset: filters.offset, limit: filters.limit, nextOffset });
+  } catch (error) {
+    console.error('Error serving jobs:', error);
+    res.status(500).json({ error: 'Failed to load jobs' });
+  }
+});
 
-// Run scraper for all sites
-const runScraper = async () => {
-  console.log('Starting job scraper...');
-  const sites = loadSites();
-  let allJobs = loadJobs();
+// Download every job matching the JobList filters as CSV, JSON or NDJSON
+app.get('/api/jobs/export', async (req, res) => {
+  const format = req.query.format || 'csv';
   
-  for (const site of sites) {
-    const newJobs = await scrapeJobs(site);
-    console.log(`Found ${newJobs.length} jobs from ${site.name}`);
+  if (!EXPORT_FORMATS[format]) {
+    return res.status(400).json({ error: `Format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+  }
+  const error = filtersError(req.query);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  
+  try {
+    const filename = `jobs-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.set({
+      'Content-Type': EXPORT_FORMATS[format].contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`
+    });
+    await writeJobExport(storage, { ...parseJobQuery(req.query), userId: req.user.id }, format, res);
+  } catch (error) {
+    console.error('Error exporting jobs:', error);
+    if (res.headersSent) {
+      res.end();
+    } else {
+      res.status(500).json({ error: 'Failed to export jobs' });
+    }
+  }
+});
+
+app.get('/api/jobs/facets', (req, res) => {
+  try {
+    const facets = storage.jobs.facets();
+    res.json({ ...facets, locations: facets.locations.map(code => ({ value: code, label: locationLabel(code) })) });
+  } catch (error) {
+    console.error('Error serving job facets:', error);
+    res.status(500).json({ error: 'Failed to load job facets' });
+  }
+});
+
+// Places the "within N miles" filter can measure from
+app.get('/api/places', (req, res) => {
+  res.json(placeNames());
+});
+
+// Pipeline stages a tracked job can be in
+const JOB_STAGES = ['saved', 'applied', 'interviewing', 'rejected'];
+
+// Jobs the user is tracking, with their state
+app.get('/api/jobs/tracked', (req, res) => {
+  try {
+    res.json(storage.jobStates.listTracked(req.user.id));
+  } catch (error) {
+    console.error('Error serving tracked jobs:', error);
+    res.status(500).json({ error: 'Failed to load tracked jobs' });
+  }
+});
+
+// Update any of the user's stage, appliedAt, hidden and notes for a job
+app.patch('/api/jobs/:id/state', (req, res) => {
+  try {
+    const changes = {};
+    const body = req.body || {};
     
-    // Add only new jobs (avoid duplicates)
-    const existingIds = new Set(allJobs.map(job => job.id));
-    const uniqueNewJobs = newJobs.filter(job => !existingIds.has(job.id));
+    if ('stage' in body) {
+      if (body.stage !== null && !JOB_STAGES.includes(body.stage)) {
+        return res.status(400).json({ error: `Stage must be one of ${JOB_STAGES.join(', ')}, or null` });
+      }
+      changes.stage = body.stage;
+    }
+    if ('appliedAt' in body) {
+      if (body.appliedAt !== null && isNaN(Date.parse(body.appliedAt))) {
+        return res.status(400).json({ error: 'appliedAt must be a date' });
+      }
+      changes.appliedAt = body.appliedAt && new Date(body.appliedAt).toISOString();
+    }
+    if ('hidden' in body) {
+      changes.hidden = Boolean(body.hidden);
+    }
+    if ('notes' in body) {
+      changes.notes = String(body.notes ?? '');
+    }
+    
+    if (!storage.jobs.get(req.params.id)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    
+    // Moving a job to "applied" records when, unless a date was given
+    if (changes.stage === 'applied' && !('appliedAt' in changes) && !storage.jobStates.get(req.user.id, req.params.id)?.appliedAt) {
+      changes.appliedAt = new Date().toISOString();
+    }
     
-    allJobs = [...uniqueNewJobs, ...allJobs];
+    res.json(storage.jobStates.update(req.user.id, req.params.id, changes));
+  } catch (error) {
+    console.error('Error updating job state:', error);
+    res.status(500).json({ error: 'Failed to update job state' });
   }
-  
-  // Sort by date (newest first)
-  allJobs.sort((a, b) => new Date(b.date) - new Date(a.date));
-  
-  // Save updated jobs
-  saveJobs(allJobs);
-  console.log(`Scraping complete. Total jobs: ${allJobs.length}`);
-  
-  return allJobs.length;
-};
+});
 
-// API endpoints
-app.get('/api/jobs', (req, res) => {
+// Keyword rules every site's jobs are scored against; sites can add their own
+app.get('/api/relevance', (req, res) => {
   try {
-    const jobs = loadJobs();
-    res.json(jobs);
+    res.json(getRelevanceRules(storage));
   } catch (error) {
-    console.error('Error serving jobs:', error);
-    res.status(500).json({ error: 'Failed to load jobs' });
+    console.error('Error serving relevance rules:', error);
+    res.status(500).json({ error: 'Failed to load relevance rules' });
   }
 });
 
+// Replace the global rules and score every stored job against them again
+app.put('/api/relevance', requireAdmin, (req, res) => {
+  try {
+    const fieldErrors = validateRelevance(req.body);
+    if (hasErrors(fieldErrors)) {
+      return res.status(400).json({ error: 'Rules have invalid fields', fieldErrors });
+    }
+    
+    saveRelevanceRules(storage, req.body);
+    res.json({ rules: getRelevanceRules(storage), rescored: rescoreJobs(storage) });
+  } catch (error) {
+    console.error('Error saving relevance rules:', error);
+    res.status(500).json({ error: 'Failed to save relevance rules' });
+  }
+});
+
+// Sites carry a version that is bumped on every update; it doubles as their ETag
+const siteETag = (site) => `"${site.version}"`;
+
+// The site version a client last saw, from If-Match or the request body.
+// Without one, updates and deletes are applied unconditionally.
+const expectedVersion = (req) => {
+  const ifMatch = req.get('If-Match');
+  if (ifMatch && ifMatch !== '*') {
+    const version = parseInt(ifMatch.replace(/^W\//, '').replace(/"/g, ''));
+    return isNaN(version) ? -1 : version;
+  }
+  const version = parseInt(req.body?.version);
+  return isNaN(version) ? null : version;
+};
+
 app.get('/api/sites', (req, res) => {
   try {
-    const sites = loadSites();
+    const sites = storage.sites.list();
     res.json(sites);
   } catch (error) {
     console.error('Error serving sites:', error);
@@ -194,54 +306,221 @@ app.get('/api/sites', (req, res) => {
   }
 });
 
-app.post('/api/sites', (req, res) => {
+app.post('/api/sites', requireAdmin, (req, res) => {
   try {
-    const sites = loadSites();
     const newSite = req.body;
     
-    // Validate required fields
-    if (!newSite.name || !newSite.url || !newSite.searchTerms || !newSite.selectors) {
-      return res.status(400).json({ error: 'Missing required fields' });
+    const fieldErrors = siteErrors(newSite);
+    if (hasErrors(fieldErrors)) {
+      return res.status(400).json({ error: 'Site has invalid fields', fieldErrors });
     }
     
-    sites.push(newSite);
-    saveSites(sites);
-    res.status(201).json(newSite);
+    const site = storage.sites.add({ ...toPortable(newSite), searchTerms: newSite.searchTerms || [] });
+    refreshSchedules();
+    if (site.relevance) rescoreJobs(storage);
+    res.status(201).set('ETag', siteETag(site)).json(site);
   } catch (error) {
     console.error('Error adding site:', error);
     res.status(500).json({ error: 'Failed to add site' });
   }
 });
 
-app.put('/api/sites/:index', (req, res) => {
+// Next scheduled run for each site, in the same order as /api/sites
+app.get('/api/schedules', (req, res) => {
+  try {
+    const schedules = storage.sites.list().map(site => ({
+      siteId: site.id,
+      name: site.name,
+      schedule: site.schedule || DEFAULT_SCHEDULE,
+      enabled: site.enabled !== false,
+      nextRun: getNextRun(site)
+    }));
+    res.json(schedules);
+  } catch (error) {
+    console.error('Error serving schedules:', error);
+    res.status(500).json({ error: 'Failed to load schedules' });
+  }
+});
+
+// Try a site's selectors or field paths against one search term without saving anything
+app.post('/api/sites/test', requireAdmin, async (req, res) => {
+  const { site, term, limit } = req.body;
+  
+  // Drafts can be tested before they are named or scheduled, and with a one-off term
+  const fieldErrors = siteErrors(site);
+  delete fieldErrors.name;
+  delete fieldErrors.searchTerms;
+  delete fieldErrors.schedule;
+  if (hasErrors(fieldErrors)) {
+    return res.status(400).json({ error: 'Site has invalid fields', fieldErrors });
+  }
+  
+  try {
+    const result = await testSite(site, {
+      term: term || getSearchTerms(site)[0],
+      limit: Math.min(50, Math.max(1, parseInt(limit) || 5))
+    });
+    res.json(result);
+  } catch (error) {
+    console.error('Error testing site:', error.message);
+    res.status(502).json({ error: error.message, httpStatus: error.response?.status ?? null });
+  }
+});
+
+// Download sites as a shareable bundle; all of them unless ?ids=a,b is given
+app.get('/api/sites/export', (req, res) => {
+  try {
+    const ids = req.query.ids ? String(req.query.ids).split(',') : null;
+    const sites = storage.sites.list().filter(site => !ids || ids.includes(site.id));
+    
+    if (sites.length === 0) {
+      return res.status(404).json({ error: 'No matching sites to export' });
+    }
+    
+    const filename = sites.length === 1
+      ? `site-${sites[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`
+      : 'sites.json';
+    res.set('Content-Disposition', `attachment; filename="${filename}"`).json(createBundle(sites));
+  } catch (error) {
+    console.error('Error exporting sites:', error);
+    res.status(500).json({ error: 'Failed to export sites' });
+  }
+});
+
+app.get('/api/sites/presets', (req, res) => {
+  res.json(listPresets());
+});
+
+app.get('/api/sites/presets/:id', (req, res) => {
+  const bundle = getPreset(req.params.id);
+  
+  if (!bundle) {
+    return res.status(404).json({ error: 'Preset not found' });
+  }
+  
+  res.json(bundle);
+});
+
+// Validate a bundle and show how it compares with the current sites
+app.post('/api/sites/import/preview', requireAdmin, (req, res) => {
+  const errors = validateBundle(req.body.bundle);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid site bundle', errors });
+  }
+  
+  try {
+    res.json(diffBundle(req.body.bundle, storage.sites.list()));
+  } catch (error) {
+    console.error('Error previewing site import:', error);
+    res.status(500).json({ error: 'Failed to preview import' });
+  }
+});
+
+app.post('/api/sites/import', requireAdmin, (req, res) => {
+  const { bundle, resolutions } = req.body;
+  
+  const errors = validateBundle(bundle);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid site bundle', errors });
+  }
+  if (resolutions !== undefined && !Array.isArray(resolutions)) {
+    return res.status(400).json({ error: 'resolutions must be a list' });
+  }
+  
+  try {
+    const result = importBundle(storage, bundle, resolutions);
+    if (result.errors) {
+      return res.status(409).json({ error: 'Some sites could not be imported as chosen', errors: result.errors });
+    }
+    
+    refreshSchedules();
+    rescoreJobs(storage);
+    res.json(result);
+  } catch (error) {
+    console.error('Error importing sites:', error);
+    res.status(500).json({ error: 'Failed to import sites' });
+  }
+});
+
+app.get('/api/sites/:id', (req, res) => {
+  try {
+    const site = storage.sites.get(req.params.id);
+    
+    if (!site) {
+      return res.status(404).json({ error: 'Site not found' });
+    }
+    
+    res.set('ETag', siteETag(site)).json(site);
+  } catch (error) {
+    console.error('Error serving site:', error);
+    res.status(500).json({ error: 'Failed to load site' });
+  }
+});
+
+// Scrape a site live and save everything it fetched and extracted as a fixture
+// in server/fixtures, for the offline tests to replay
+app.post('/api/sites/:id/fixture', requireAdmin, async (req, res) => {
+  const site = storage.sites.get(req.params.id);
+  
+  if (!site) {
+    return res.status(404).json({ error: 'Site not found' });
+  }
+  
   try {
-    const sites = loadSites();
-    const index = parseInt(req.params.index);
+    const fixture = await recordFixture(site);
+    if (fixture.jobs.length === 0) {
+      return res.status(502).json({ error: `${site.name} returned no jobs; fixture not saved` });
+    }
+    
+    const file = saveFixture(fixture);
+    res.json({ file: path.basename(file), responses: fixture.responses.length, jobs: fixture.jobs.length });
+  } catch (error) {
+    console.error('Error recording fixture:', error);
+    res.status(500).json({ error: 'Failed to record fixture' });
+  }
+});
+
+app.put('/api/sites/:id', requireAdmin, (req, res) => {
+  try {
+    const fieldErrors = siteErrors(req.body);
+    if (hasErrors(fieldErrors)) {
+      return res.status(400).json({ error: 'Site has invalid fields', fieldErrors });
+    }
     
-    if (isNaN(index) || index < 0 || index >= sites.length) {
+    const previous = storage.sites.get(req.params.id);
+    const { status, site } = storage.sites.update(req.params.id, req.body, expectedVersion(req));
+    
+    if (status === 'not_found') {
       return res.status(404).json({ error: 'Site not found' });
     }
+    if (status === 'conflict') {
+      return res.status(409).set('ETag', siteETag(site)).json({ error: 'Site was changed by someone else', site });
+    }
     
-    sites[index] = req.body;
-    saveSites(sites);
-    res.json(sites[index]);
+    refreshSchedules();
+    // Its jobs are scored with its rules, found by name
+    if (site.name !== previous.name || JSON.stringify(site.relevance) !== JSON.stringify(previous.relevance)) {
+      rescoreJobs(storage);
+    }
+    res.set('ETag', siteETag(site)).json(site);
   } catch (error) {
     console.error('Error updating site:', error);
     res.status(500).json({ error: 'Failed to update site' });
   }
 });
 
-app.delete('/api/sites/:index', (req, res) => {
+app.delete('/api/sites/:id', requireAdmin, (req, res) => {
   try {
-    const sites = loadSites();
-    const index = parseInt(req.params.index);
+    const { status, site } = storage.sites.remove(req.params.id, expectedVersion(req));
     
-    if (isNaN(index) || index < 0 || index >= sites.length) {
+    if (status === 'not_found') {
       return res.status(404).json({ error: 'Site not found' });
     }
+    if (status === 'conflict') {
+      return res.status(409).set('ETag', siteETag(site)).json({ error: 'Site was changed by someone else', site });
+    }
     
-    sites.splice(index, 1);
-    saveSites(sites);
+    refreshSchedules();
     res.json({ success: true });
   } catch (error) {
     console.error('Error deleting site:', error);
@@ -249,24 +528,425 @@ app.delete('/api/sites/:index', (req, res) => {
   }
 });
 
-app.post('/api/scrape', async (req, res) => {
+app.post('/api/scrape', (req, res) => {
   try {
-    const jobCount = await runScraper();
-    res.json({ success: true, jobCount });
+    const run = startScrape();
+    
+    if (!run) {
+      return res.status(409).json({ error: 'A scrape is already running', run: getActiveRun() });
+    }
+    
+    res.status(202).json(run);
   } catch (error) {
-    console.error('Error during scrape:', error);
+    console.error('Error starting scrape:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
-// Add a health check endpoint
-app.head('/api/jobs', (req, res) => {
-  res.status(200).end();
+app.get('/api/runs', (req, res) => {
+  try {
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(req.query.limit) || 20));
+    const offset = Math.max(0, parseInt(req.query.offset) || 0);
+    res.json(listRuns(storage, { limit, offset }));
+  } catch (error) {
+    console.error('Error serving runs:', error);
+    res.status(500).json({ error: 'Failed to load runs' });
+  }
+});
+
+app.get('/api/runs/active', (req, res) => {
+  res.json(getActiveRun());
+});
+
+app.get('/api/runs/site-health', (req, res) => {
+  try {
+    res.json(getSiteHealth(storage, storage.sites.list()));
+  } catch (error) {
+    console.error('Error serving site health:', error);
+    res.status(500).json({ error: 'Failed to load site health' });
+  }
+});
+
+app.get('/api/runs/:id', (req, res) => {
+  const run = getRun(storage, req.params.id);
+  
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+  
+  res.json(run);
 });
 
-// Schedule daily scraping (at midnight)
-cron.schedule('0 0 * * *', () => {
-  runScraper();
+// Stream run progress as Server-Sent Events until the run finishes
+app.get('/api/runs/:id/events', (req, res) => {
+  const run = getRun(storage, req.params.id);
+  
+  if (!run) {
+    return res.status(404).json({ error: 'Run not found' });
+  }
+  
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+  
+  const send = (update) => {
+    res.write(`data: ${JSON.stringify(update)}\n\n`);
+    if (update.status !== 'running') {
+      res.end();
+    }
+  };
+  
+  const unsubscribe = subscribe(run.id, send);
+  req.on('close', unsubscribe);
+  send(run);
+});
+
+// Cached search result pages, most recently checked first, without their
+// bodies; ?q= filters by URL
+app.get('/api/cache', (req, res) => {
+  try {
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(req.query.limit) || 50));
+    const offset = Math.max(0, parseInt(req.query.offset) || 0);
+    const q = typeof req.query.q === 'string' && req.query.q.trim() ? req.query.q.trim() : undefined;
+    res.json(storage.responseCache.list({ q, limit, offset }));
+  } catch (error) {
+    console.error('Error serving response cache:', error);
+    res.status(500).json({ error: 'Failed to load cached pages' });
+  }
+});
+
+// A cached page's body exactly as it was received, for checking selectors
+// against. It's plain text unless ?render=true, and sandboxed even then so
+// none of the scraped page's scripts run on this origin.
+app.get('/api/cache/raw', (req, res) => {
+  try {
+    const entry = typeof req.query.url === 'string' ? storage.responseCache.get(req.query.url) : null;
+    
+    if (!entry) {
+      return res.status(404).json({ error: 'Page not in cache' });
+    }
+    
+    const render = req.query.render === 'true';
+    res.set({
+      'Content-Type': render && entry.contentType ? entry.contentType : 'text/plain; charset=utf-8',
+      'Content-Security-Policy': 'sandbox',
+      'X-Content-Type-Options': 'nosniff'
+    });
+    res.send(entry.body);
+  } catch (error) {
+    console.error('Error serving cached page:', error);
+    res.status(500).json({ error: 'Failed to load cached page' });
+  }
+});
+
+// Forget one cached page (?url=) or, without a url, the whole cache. The next
+// run downloads and parses those pages in full.
+app.delete('/api/cache', requireAdmin, (req, res) => {
+  try {
+    if (typeof req.query.url === 'string') {
+      if (!storage.responseCache.remove(req.query.url)) {
+        return res.status(404).json({ error: 'Page not in cache' });
+      }
+      return res.json({ removed: 1 });
+    }
+    
+    res.json({ removed: storage.responseCache.clear() });
+  } catch (error) {
+    console.error('Error clearing response cache:', error);
+    res.status(500).json({ error: 'Failed to clear cache' });
+  }
+});
+
+// Why a saved search's notify settings are unusable, or null if they're fine
+const notifyError = (notify = {}) => {
+  if (notify.webhookUrl) {
+    const error = typeof notify.webhookUrl === 'string'
+      ? webhookUrlError(notify.webhookUrl)
+      : 'Webhook URL must be an http(s) URL';
+    if (error) return error;
+  }
+  if (notify.email && (typeof notify.email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(notify.email))) {
+    return 'Invalid email address';
+  }
+  return null;
+};
+
+// Strings trimmed; anything else is left for validation to reject
+const trimmed = (value) => (typeof value === 'string' ? value.trim() : value);
+
+// Saved search fields accepted from clients
+const parseSavedSearch = (body) => ({
+  name: trimmed(body.name),
+  filters: cleanFilters(body.filters),
+  notify: {
+    inbox: body.notify?.inbox !== false,
+    webhookUrl: trimmed(body.notify?.webhookUrl) || undefined,
+    email: trimmed(body.notify?.email) || undefined
+  }
+});
+
+// Field errors for a parsed saved search; empty when it can be saved
+const savedSearchErrors = (search) => {
+  if (typeof search.name !== 'string' && search.name !== undefined) return { name: 'Name must be text' };
+  if (!search.name) return { name: 'A name is required' };
+  return {};
+};
+
+// The user's saved search with the id in the URL, or null
+const findSavedSearch = (req) => {
+  const search = storage.savedSearches.get(req.params.id);
+  return search?.userId === req.user.id ? search : null;
+};
+
+app.get('/api/saved-searches', (req, res) => {
+  try {
+    res.json(storage.savedSearches.list(req.user.id));
+  } catch (error) {
+    console.error('Error serving saved searches:', error);
+    res.status(500).json({ error: 'Failed to load saved searches' });
+  }
+});
+
+app.post('/api/saved-searches', (req, res) => {
+  try {
+    const search = parseSavedSearch(req.body);
+    
+    const fieldErrors = savedSearchErrors(search);
+    if (hasErrors(fieldErrors)) {
+      return res.status(400).json({ error: fieldErrors.name, fieldErrors });
+    }
+    const error = notifyError(search.notify) || filtersError(search.filters);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    res.status(201).json(storage.savedSearches.add({ ...search, userId: req.user.id }));
+  } catch (error) {
+    console.error('Error adding saved search:', error);
+    res.status(500).json({ error: 'Failed to add saved search' });
+  }
+});
+
+app.put('/api/saved-searches/:id', (req, res) => {
+  try {
+    const search = parseSavedSearch(req.body);
+    
+    const fieldErrors = savedSearchErrors(search);
+    if (hasErrors(fieldErrors)) {
+      return res.status(400).json({ error: fieldErrors.name, fieldErrors });
+    }
+    const error = notifyError(search.notify) || filtersError(search.filters);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    if (!findSavedSearch(req)) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    
+    res.json(storage.savedSearches.update(req.params.id, search));
+  } catch (error) {
+    console.error('Error updating saved search:', error);
+    res.status(500).json({ error: 'Failed to update saved search' });
+  }
+});
+
+app.delete('/api/saved-searches/:id', (req, res) => {
+  try {
+    if (!findSavedSearch(req)) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    
+    storage.savedSearches.remove(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    res.status(500).json({ error: 'Failed to delete saved search' });
+  }
+});
+
+// Jobs recorded as matching a saved search, most recent first
+app.get('/api/saved-searches/:id/matches', (req, res) => {
+  try {
+    if (!findSavedSearch(req)) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(req.query.limit) || 50));
+    const offset = Math.max(0, parseInt(req.query.offset) || 0);
+    res.json(storage.savedSearches.matches(req.params.id, { limit, offset }));
+  } catch (error) {
+    console.error('Error serving saved search matches:', error);
+    res.status(500).json({ error: 'Failed to load saved search matches' });
+  }
+});
+
+// Clear a saved search's unread count
+app.post('/api/saved-searches/:id/read', (req, res) => {
+  try {
+    if (!findSavedSearch(req)) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    
+    storage.savedSearches.markRead(req.params.id);
+    res.json(storage.savedSearches.get(req.params.id));
+  } catch (error) {
+    console.error('Error marking saved search read:', error);
+    res.status(500).json({ error: 'Failed to mark saved search read' });
+  }
+});
+
+app.get('/api/notifications', (req, res) => {
+  try {
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(req.query.limit) || 20));
+    const offset = Math.max(0, parseInt(req.query.offset) || 0);
+    res.json({
+      notifications: storage.notifications.list(req.user.id, { limit, offset, unreadOnly: req.query.unread === 'true' }),
+      unread: storage.notifications.countUnread(req.user.id)
+    });
+  } catch (error) {
+    console.error('Error serving notifications:', error);
+    res.status(500).json({ error: 'Failed to load notifications' });
+  }
+});
+
+// Mark the given notification ids read, or all of the user's when none are given
+app.post('/api/notifications/read', (req, res) => {
+  try {
+    const ids = Array.isArray(req.body?.ids) ? req.body.ids : undefined;
+    storage.notifications.markRead(req.user.id, ids);
+    res.json({ unread: storage.notifications.countUnread(req.user.id) });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications read' });
+  }
+});
+
+// Test messages go to whatever address the form holds, so each user may only
+// send a few of them in a while
+const TEST_NOTIFICATION_LIMIT = 5;
+const TEST_NOTIFICATION_WINDOW_MS = 10 * 60 * 1000;
+const testNotificationTimes = new Map();
+
+// Seconds until the user may send another test message, or 0 (recording this one)
+const testNotificationWait = (userId) => {
+  const now = Date.now();
+  const recent = (testNotificationTimes.get(userId) || []).filter(time => now - time < TEST_NOTIFICATION_WINDOW_MS);
+  testNotificationTimes.set(userId, recent);
+  
+  if (recent.length >= TEST_NOTIFICATION_LIMIT) {
+    return Math.ceil((recent[0] + TEST_NOTIFICATION_WINDOW_MS - now) / 1000);
+  }
+  recent.push(now);
+  return 0;
+};
+
+// Send a test message through one channel with the given settings
+app.post('/api/notifications/test', async (req, res) => {
+  const { channel, notify } = req.body || {};
+  
+  if (!CHANNELS.includes(channel)) {
+    return res.status(400).json({ error: `Unknown channel; expected one of ${CHANNELS.join(', ')}` });
+  }
+  const error = notifyError(notify);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  const wait = testNotificationWait(req.user.id);
+  if (wait > 0) {
+    res.set('Retry-After', String(wait));
+    return res.status(429).json({ error: `Too many test notifications; try again in ${Math.ceil(wait / 60)} min` });
+  }
+  
+  try {
+    await sendTest(storage, channel, notify || {}, req.user.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error(`Error sending test ${channel} notification:`, error.message);
+    res.status(502).json({ error: error.message });
+  }
+});
+
+// Accounts, managed by admins
+app.get('/api/users', requireAdmin, (req, res) => {
+  try {
+    res.json(storage.users.list());
+  } catch (error) {
+    console.error('Error serving users:', error);
+    res.status(500).json({ error: 'Failed to load users' });
+  }
+});
+
+app.post('/api/users', requireAdmin, async (req, res) => {
+  const { username, password, role = 'user' } = req.body || {};
+  const fieldErrors = userErrors({ username, password, role });
+  if (hasErrors(fieldErrors)) {
+    return res.status(400).json({ error: 'Account has invalid fields', fieldErrors });
+  }
+  
+  try {
+    if (storage.users.findByUsername(username)) {
+      return res.status(409).json({ error: 'That username is taken', fieldErrors: { username: 'That username is taken' } });
+    }
+    
+    const user = storage.users.add({ username, passwordHash: await hashPassword(password), role });
+    res.status(201).json(user);
+  } catch (error) {
+    console.error('Error adding user:', error);
+    res.status(500).json({ error: 'Failed to add user' });
+  }
+});
+
+// Change a user's role and/or password. A new password signs them out everywhere else.
+app.patch('/api/users/:id', requireAdmin, async (req, res) => {
+  const { role, password } = req.body || {};
+  const fieldErrors = userErrors({ role, password }, { partial: true });
+  if (hasErrors(fieldErrors)) {
+    return res.status(400).json({ error: 'Account has invalid fields', fieldErrors });
+  }
+  
+  try {
+    const user = storage.users.get(req.params.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (role === 'user' && isLastAdmin(storage, user)) {
+      return res.status(409).json({ error: 'There must be at least one admin' });
+    }
+    
+    const passwordHash = password !== undefined ? await hashPassword(password) : undefined;
+    const updated = storage.users.update(user.id, { role, passwordHash });
+    if (passwordHash) {
+      storage.sessions.removeForUser(user.id);
+      if (user.id === req.user.id) setSessionCookie(res, createSession(storage, user));
+    }
+    res.json(updated);
+  } catch (error) {
+    console.error('Error updating user:', error);
+    res.status(500).json({ error: 'Failed to update user' });
+  }
+});
+
+// Remove an account along with everything the user saved
+app.delete('/api/users/:id', requireAdmin, (req, res) => {
+  try {
+    const user = storage.users.get(req.params.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (isLastAdmin(storage, user)) {
+      return res.status(409).json({ error: 'There must be at least one admin' });
+    }
+    
+    storage.users.remove(user.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
 });
 
 // Handle startup errors
@@ -274,7 +954,7 @@ const server = app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
   
   // Run initial scrape on server start
-  // runScraper();
+  // startScrape();
 });
 
 server.on('error', (error) => {
@@ -288,7 +968,10 @@ server.on('error', (error) => {
 // Handle graceful shutdown
 process.on('SIGINT', () => {
   console.log('Shutting down server gracefully...');
-  server.close(() => {
+  stopSchedules();
+  server.close(async () => {
+    await closeBrowser();
+    storage.close();
     console.log('Server closed');
     process.exit(0);
   });
@@ -0,0 +1,46 @@
+import { WORK_MODES, findPlace, nearFilter } from './locations.js';
+
+// Largest page of results any listing endpoint returns
+export const MAX_PAGE_SIZE = 200;
+
+// Express parses a repeated parameter (?q=a&q=b) into an array and q[x]=a
+// into an object. Use the first value given, and ignore anything else that
+// isn't a string.
+const param = (value) => {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' ? first : undefined;
+};
+
+const singleParams = (query) =>
+  Object.fromEntries(Object.entries(query).map(([name, value]) => [name, param(value)]));
+
+// Parse the filter/paging query string shared by the job listing endpoints
+// (and the CLI's `jobs` command) into jobs.query() filters
+export const parseJobQuery = (rawQuery) => {
+  const query = singleParams(rawQuery);
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(query.limit) || 50));
+  const offset = Math.max(0, parseInt(query.offset) || 0);
+  
+  return {
+    q: query.q?.trim() || undefined,
+    source: query.source || undefined,
+    keyword: query.keyword || undefined,
+    status: query.status || undefined,
+    from: query.from || undefined,
+    to: query.to || undefined,
+    workMode: WORK_MODES.includes(query.workMode) ? query.workMode : undefined,
+    location: query.location || undefined,
+    near: query.near ? nearFilter(query.near, query.within) : undefined,
+    sort: query.sort || 'newest',
+    includeHidden: query.includeHidden === 'true',
+    hideExcluded: query.hideExcluded === 'true',
+    limit,
+    offset
+  };
+};
+
+// Why job filters can't be used, or null; shared with saved searches
+export const filtersError = (filters) => {
+  const near = param(filters.near);
+  return near && !findPlace(near) ? `Unknown place "${near}"` : null;
+};
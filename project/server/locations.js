@@ -0,0 +1,195 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Job locations are parsed against the place list in server/places.json
+// (countries, their states or provinces, and cities with coordinates), so no
+// geocoding service is involved. A parsed location is
+//   { city, region, country, workMode, latitude, longitude }
+// with region and country as codes ("TN", "US") and workMode one of
+// WORK_MODES. Anything that couldn't be made out is null.
+export const WORK_MODES = ['remote', 'hybrid', 'onsite'];
+
+export const DEFAULT_RADIUS_MILES = 25;
+
+const places = JSON.parse(fs.readFileSync(path.join(__dirname, 'places.json'), 'utf8'));
+
+// Countries whose places are written "City, ST" rather than "City, Country"
+const REGION_CODE_COUNTRIES = ['US', 'CA', 'AU'];
+
+// Lowercase words between single spaces, without accents or punctuation
+const normalize = (text) =>
+  String(text ?? '').normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Map every normalized name and alias to the places that go by it, in file order
+const indexByName = (list, names) => {
+  const index = new Map();
+  for (const place of list) {
+    for (const name of new Set(names(place).map(normalize))) {
+      index.set(name, [...(index.get(name) ?? []), place]);
+    }
+  }
+  return index;
+};
+
+const countriesByCode = new Map(places.countries.map(country => [country.code, country]));
+const countriesByName = indexByName(places.countries, country => [country.name, ...(country.aliases ?? [])]);
+const regionsByName = indexByName(places.regions, region => [region.name, region.code, ...(region.aliases ?? [])]);
+const citiesByName = indexByName(places.cities, city => [city.name, ...(city.aliases ?? [])]);
+
+// Phrases that say how the work is done; the first that matches wins, so
+// "hybrid remote" counts as hybrid
+const WORK_MODE_PATTERNS = [
+  ['hybrid', /\bhybrid\b/],
+  ['remote', /\b(remote|remotely|work from home|wfh|telecommute|anywhere)\b/],
+  ['onsite', /\b(on ?site|in office|in person)\b/]
+];
+
+// Words around a place name that aren't part of it, e.g. "Remote in ...",
+// "Greater ... Area". Only stripped when the text doesn't match as it is.
+const NOISE = /\b(remote|remotely|hybrid|work from home|wfh|telecommute|anywhere|on ?site|in office|in person|work|working|based|position|role|job|in|the|from|within|greater|metro|metropolitan|area|region|multiple locations|\d+ locations?)\b/g;
+
+const workModeOf = (text) => WORK_MODE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+
+const titleCase = (text) => text.replace(/\b\p{L}/gu, letter => letter.toUpperCase());
+
+// Places named `key` that fit what's already been found
+const candidates = (index, key, { country, region } = {}) =>
+  (index.get(key) ?? []).filter(place =>
+    (!country || place.country === country) && (!region || place.region === region));
+
+// Split "los angeles ca" into ["los angeles", "ca"] when the last words name a
+// region or country and the rest doesn't match as a whole
+const peelTrailingPlace = (part) => {
+  const words = part.split(' ');
+  for (let count = Math.min(3, words.length - 1); count > 0; count--) {
+    const tail = words.slice(-count).join(' ');
+    if (regionsByName.has(tail) || countriesByName.has(tail)) {
+      return [...peelTrailingPlace(words.slice(0, -count).join(' ')), tail];
+    }
+  }
+  return [part];
+};
+
+// The location text as normalized parts, most specific first
+const locationParts = (text) =>
+  String(text ?? '')
+    .replace(/\b\d{5}(-\d{4})?\b/g, ' ')
+    .split(/[,;|/()\u00b7\u2022]|\s[-\u2013\u2014]\s/)
+    .map(normalize)
+    .flatMap(part => {
+      if (countriesByName.has(part) || regionsByName.has(part) || citiesByName.has(part)) return [part];
+      const stripped = part.replace(NOISE, ' ').replace(/\s+/g, ' ').trim();
+      return stripped ? peelTrailingPlace(stripped) : [];
+    });
+
+// Parse free-text job locations like "Remote in Los Angeles, CA 90028" or
+// "Hybrid work in Nashville". Parts are read from the end, since that's where
+// the country and state go; a city found without them fills them in. Jobs
+// that name a city and no work mode are taken to be onsite.
+export const parseLocation = (text) => {
+  const found = { city: null, region: null, country: null };
+  let place = null;
+  let regionPart = null;
+  let unknownPart = null;
+  
+  for (const part of locationParts(text).reverse()) {
+    const country = !found.country && !found.region && !found.city && countriesByName.get(part)?.[0];
+    if (country) {
+      found.country = country.code;
+      continue;
+    }
+    const region = !found.region && !found.city && candidates(regionsByName, part, found)[0];
+    if (region) {
+      found.region = region.code;
+      found.country = region.country;
+      regionPart = part;
+      continue;
+    }
+    const city = !found.city && candidates(citiesByName, part, found)[0];
+    if (city) {
+      place = city;
+      found.city = city.name;
+    } else if (!found.city && !unknownPart) {
+      unknownPart = part;
+    }
+  }
+  
+  // "New York" on its own is the city rather than the state
+  if (!place && regionPart && !unknownPart) {
+    place = candidates(citiesByName, regionPart, found)[0] ?? null;
+    if (place) found.city = place.name;
+  }
+  if (place) {
+    found.region = place.region ?? found.region;
+    found.country = place.country;
+  } else if (unknownPart && (found.region || found.country)) {
+    // A town that isn't in the list, but is placed by the state after it
+    found.city = titleCase(unknownPart);
+  }
+  
+  const workMode = workModeOf(normalize(text)) ?? (found.city ? 'onsite' : null);
+  return {
+    ...found,
+    workMode,
+    latitude: place?.latitude ?? null,
+    longitude: place?.longitude ?? null
+  };
+};
+
+// The job with its location fields filled in from job.location
+export const withLocation = (job) => ({ ...job, ...parseLocation(job.location) });
+
+// Parse every stored job's location again, e.g. after the place list changed.
+// Returns the number of jobs whose location fields changed.
+export const locateJobs = (storage) => storage.transaction(() => {
+  const changed = [];
+  for (const job of storage.jobs.list()) {
+    const located = withLocation(job);
+    if (['city', 'region', 'country', 'workMode', 'latitude', 'longitude'].some(field => located[field] !== job[field])) {
+      changed.push(located);
+    }
+  }
+  storage.jobs.upsertMany(changed);
+  return changed.length;
+});
+
+export const placeLabel = (city) =>
+  REGION_CODE_COUNTRIES.includes(city.country) && city.region
+    ? `${city.name}, ${city.region}`
+    : `${city.name}, ${countriesByCode.get(city.country)?.name ?? city.country}`;
+
+// Labels of every city with coordinates, for picking where "within N miles" is measured from
+export const placeNames = () => places.cities.map(placeLabel).sort();
+
+const citiesByLabel = new Map(places.cities.map(city => [normalize(placeLabel(city)), city]));
+
+// The listed city a name refers to, as { name, latitude, longitude }, or null
+export const findPlace = (name) => {
+  const city = citiesByLabel.get(normalize(name));
+  if (city) return { name: placeLabel(city), latitude: city.latitude, longitude: city.longitude };
+  
+  const parsed = parseLocation(name);
+  return parsed.latitude === null ? null : { name, latitude: parsed.latitude, longitude: parsed.longitude };
+};
+
+// The jobs.query() filter for jobs within `miles` of a named place, or null if
+// the place isn't known
+export const nearFilter = (name, miles) => {
+  const place = findPlace(name);
+  if (!place) return null;
+  const radius = Number(miles);
+  return { latitude: place.latitude, longitude: place.longitude, miles: radius > 0 ? radius : DEFAULT_RADIUS_MILES };
+};
+
+// Label for a jobs.facets() location code: "US" or "US-TN"
+export const locationLabel = (code) => {
+  const [countryCode, regionCode] = code.split('-');
+  const country = countriesByCode.get(countryCode)?.name ?? countryCode;
+  if (!regionCode) return country;
+  const region = places.regions.find(region => region.country === countryCode && region.code === regionCode);
+  return `${country} - ${region?.name ?? regionCode}`;
+};
@@ -0,0 +1,37 @@
+import nodemailer from 'nodemailer';
+
+// SMTP email to the saved search's email address. The defaults suit a local
+// SMTP stand-in such as MailHog or smtp4dev; set SMTP_* for a real server.
+const SMTP_HOST = process.env.SMTP_HOST || 'localhost';
+const SMTP_PORT = parseInt(process.env.SMTP_PORT) || 1025;
+const SMTP_SECURE = process.env.SMTP_SECURE === 'true';
+const SMTP_FROM = process.env.SMTP_FROM || 'Job Finder <jobs@localhost>';
+
+let transport = null;
+
+const getTransport = () => {
+  if (!transport) {
+    transport = nodemailer.createTransport({
+      host: SMTP_HOST,
+      port: SMTP_PORT,
+      secure: SMTP_SECURE,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+      connectionTimeout: 10000
+    });
+  }
+  return transport;
+};
+
+export const isEnabled = (notify) => Boolean(notify?.email);
+
+const jobLine = (job) =>
+  [job.title, job.company, job.location].filter(Boolean).join(' · ') + (job.link ? `\n  ${job.link}` : '');
+
+export const send = async (message, { notify }) => {
+  await getTransport().sendMail({
+    from: SMTP_FROM,
+    to: notify.email,
+    subject: message.title,
+    text: [message.text, '', ...message.jobs.map(jobLine)].join('\n')
+  });
+};
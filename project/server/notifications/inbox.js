@@ -0,0 +1,7 @@
+// In-app inbox: notifications are stored and shown in the UI's notification menu
+
+export const isEnabled = (notify) => notify?.inbox !== false;
+
+export const send = async (message, { storage }) => {
+  storage.notifications.add(message);
+};
@@ -0,0 +1,51 @@
+import * as inbox from './inbox.js';
+import * as webhook from './webhook.js';
+import * as email from './email.js';
+
+// Notification channels. Each one exports:
+//   isEnabled(notify)               - whether a saved search's notify settings turn it on
+//   send(message, { storage, notify }) - deliver a message, throwing on failure
+// Messages look like { title, text, userId, searchId, searchName, jobs, createdAt },
+// userId being whose saved search it is.
+const channels = { inbox, webhook, email };
+
+export const CHANNELS = Object.keys(channels);
+
+export { webhookUrlError } from './webhook.js';
+
+// Send a message through every channel the notify settings enable. A failing
+// channel is logged and reported but doesn't stop the others.
+export const notify = async (storage, notifySettings, message) => {
+  const failures = [];
+  
+  for (const [name, channel] of Object.entries(channels)) {
+    if (!channel.isEnabled(notifySettings)) continue;
+    try {
+      await channel.send(message, { storage, notify: notifySettings });
+    } catch (error) {
+      console.error(`Error sending ${name} notification:`, error.message);
+      failures.push({ channel: name, error: error.message });
+    }
+  }
+  
+  return failures;
+};
+
+// Send a message to a user through one channel regardless of whether it's
+// enabled, so settings can be tried out before saving them
+export const sendTest = async (storage, channelName, notifySettings, userId) => {
+  const channel = channels[channelName];
+  if (!channel) {
+    throw new Error(`Unknown channel; expected one of ${CHANNELS.join(', ')}`);
+  }
+  
+  await channel.send({
+    title: 'Test notification',
+    text: 'Notifications for this saved search are working.',
+    userId,
+    searchId: null,
+    searchName: null,
+    jobs: [],
+    createdAt: new Date().toISOString()
+  }, { storage, notify: notifySettings });
+};
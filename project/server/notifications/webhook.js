@@ -0,0 +1,91 @@
+import axios from 'axios';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// Generic webhook: the message is POSTed as JSON to the saved search's webhookUrl.
+// Any user can set one, so by default the server refuses to POST to loopback,
+// private-network and other non-public addresses. Set WEBHOOK_ALLOW_PRIVATE=true
+// when webhooks are meant to reach hosts on your own network.
+const ALLOW_PRIVATE = process.env.WEBHOOK_ALLOW_PRIVATE === 'true';
+
+const PRIVATE_RANGES = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+const privateAddresses = new net.BlockList();
+for (const [address, prefix, family] of PRIVATE_RANGES) {
+  privateAddresses.addSubnet(address, prefix, family);
+}
+
+export const isPrivateAddress = (address) => {
+  const family = net.isIP(address);
+  return family !== 0 && privateAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+// Why a webhook URL can't be used, or null if it can. Host names are checked
+// again when the webhook is sent, against the addresses they resolve to.
+export const webhookUrlError = (value) => {
+  let url;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Webhook URL must be an http(s) URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'Webhook URL must be an http(s) URL';
+  
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (!ALLOW_PRIVATE && (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host))) {
+    return 'Webhook URL must point to a public address';
+  }
+  return null;
+};
+
+// dns.lookup that fails for non-public addresses. Used for the connection
+// itself, so a name can't resolve to a public address when checked and a
+// private one when connected to.
+const publicLookup = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error);
+    
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    if (addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a non-public address`));
+    }
+    callback(null, address, family);
+  });
+};
+
+const agents = ALLOW_PRIVATE
+  ? {}
+  : { httpAgent: new http.Agent({ lookup: publicLookup }), httpsAgent: new https.Agent({ lookup: publicLookup }) };
+
+export const isEnabled = (notify) => Boolean(notify?.webhookUrl);
+
+export const send = async (message, { notify }) => {
+  const error = webhookUrlError(notify.webhookUrl);
+  if (error) throw new Error(error);
+  
+  await axios.post(notify.webhookUrl, message, {
+    ...agents,
+    headers: { 'Content-Type': 'application/json' },
+    timeout: 10000,
+    // A redirect could lead anywhere, so it isn't followed
+    maxRedirects: 0
+  });
+};
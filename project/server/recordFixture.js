@@ -0,0 +1,47 @@
+import path from 'path';
+import { openStorage } from './storage/index.js';
+import { DEFAULT_PRESET, getPreset } from './siteBundles.js';
+import { recordFixture, saveFixture } from './fixtures.js';
+import { closeBrowser } from './fetchers/browser.js';
+
+// Record scrape fixtures for configured sites, for the offline tests to replay:
+//   npm run record-fixture -- [site name or id ...]
+// With no arguments every enabled site is recorded. Exits non-zero if any
+// site can't be found or comes back without jobs.
+
+const storage = openStorage({ defaultSites: getPreset(DEFAULT_PRESET).sites });
+
+const selectSites = (args) => {
+  const sites = storage.sites.list();
+  if (args.length === 0) return sites.filter(site => site.enabled !== false);
+  
+  return args.map(arg => {
+    const site = sites.find(site => site.id === arg || site.name.toLowerCase() === arg.toLowerCase());
+    if (!site) console.error(`No site named "${arg}"`);
+    return site;
+  });
+};
+
+let failed = 0;
+
+for (const site of selectSites(process.argv.slice(2))) {
+  if (!site) {
+    failed++;
+    continue;
+  }
+  
+  const fixture = await recordFixture(site);
+  if (fixture.jobs.length === 0) {
+    console.error(`${site.name} returned no jobs; fixture not saved`);
+    failed++;
+    continue;
+  }
+  
+  const file = saveFixture(fixture);
+  const responses = `${fixture.responses.length} response${fixture.responses.length === 1 ? '' : 's'}`;
+  console.log(`Recorded ${fixture.jobs.length} jobs from ${responses} to ${path.relative(process.cwd(), file)}`);
+}
+
+await closeBrowser();
+storage.close();
+process.exit(failed > 0 ? 1 : 0);
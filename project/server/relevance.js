@@ -0,0 +1,41 @@
+import { combineRules, scoreJob } from '../shared/relevance.js';
+
+// Global relevance rules are kept in storage meta; each site can add its own
+// in site.relevance (see shared/relevance.js for the shape and scoring)
+const RULES_KEY = 'relevanceRules';
+
+export const getRelevanceRules = (storage) => {
+  const stored = storage.meta.get(RULES_KEY);
+  return stored ? JSON.parse(stored) : {};
+};
+
+export const saveRelevanceRules = (storage, rules) =>
+  storage.meta.set(RULES_KEY, JSON.stringify(rules));
+
+export const rulesForSite = (globalRules, site) => combineRules(globalRules, site?.relevance);
+
+// The job with its score, the matches behind it and the exclude term it hit
+export const withRelevance = (job, rules) => {
+  const { score, reasons, excludedBy } = scoreJob(job, rules);
+  return { ...job, score, scoreReasons: reasons, excludedBy };
+};
+
+// Score every stored job again after the rules changed. Jobs are only ever
+// flagged here; dropping applies to new listings during a scrape. Returns the
+// number of jobs whose score or flag changed.
+export const rescoreJobs = (storage) => storage.transaction(() => {
+  const globalRules = getRelevanceRules(storage);
+  const rulesBySource = new Map(storage.sites.list().map(site => [site.name, rulesForSite(globalRules, site)]));
+  const fallback = rulesForSite(globalRules, null);
+  
+  const changed = [];
+  for (const job of storage.jobs.list()) {
+    const scored = withRelevance(job, rulesBySource.get(job.source) ?? fallback);
+    if (scored.score !== job.score || scored.excludedBy !== job.excludedBy
+      || JSON.stringify(scored.scoreReasons) !== JSON.stringify(job.scoreReasons)) {
+      changed.push(scored);
+    }
+  }
+  storage.jobs.upsertMany(changed);
+  return changed.length;
+});
@@ -0,0 +1,197 @@
+import axios from 'axios';
+import { parseRobots, allowAll } from './robots.js';
+
+// Every outgoing scrape request goes through politeFetch(), which queues it
+// per host so the site's politeness settings hold across all sites, search
+// terms and detail pages in a run:
+//   site.politeness = { minDelayMs, maxConcurrency, userAgent, respectRobotsTxt }
+// 429 and 403 responses make the whole host back off before trying again.
+
+// Defaults for sites that don't set their own. REQUEST_DELAY_MS=0 turns the
+// delay off, e.g. for tests against a local server.
+const REQUEST_DELAY_MS = parseInt(process.env.REQUEST_DELAY_MS);
+const DEFAULT_DELAY_MS = Number.isNaN(REQUEST_DELAY_MS) ? 1000 : REQUEST_DELAY_MS;
+const DEFAULT_HOST_CONCURRENCY = parseInt(process.env.HOST_CONCURRENCY) || 2;
+export const DEFAULT_USER_AGENT = process.env.SCRAPER_USER_AGENT || 'MusicAudioJobScraper/0.1';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Backoff after a blocked response doubles with each block in a row, unless
+// the host sends Retry-After
+const BACKOFF_BASE_MS = parseInt(process.env.BACKOFF_BASE_MS) || 5000;
+const BACKOFF_MAX_MS = parseInt(process.env.BACKOFF_MAX_MS) || 2 * 60 * 1000;
+
+// How many times a blocked request is retried before giving up
+const MAX_BLOCKED_RETRIES = 2;
+
+// How long a fetched robots.txt is trusted
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+
+const BLOCKED_STATUSES = [403, 429];
+
+// Per host: requests in flight, queued requests, the earliest time the next
+// one may start, and the current backoff
+const hosts = new Map();
+
+// robots.txt rules by origin and user agent: { fetchedAt, rules } where rules
+// may still be a pending promise
+const robotsCache = new Map();
+
+export const politenessFor = (site) => ({
+  minDelayMs: site?.politeness?.minDelayMs ?? DEFAULT_DELAY_MS,
+  maxConcurrency: site?.politeness?.maxConcurrency || DEFAULT_HOST_CONCURRENCY,
+  userAgent: site?.politeness?.userAgent || DEFAULT_USER_AGENT,
+  respectRobotsTxt: site?.politeness?.respectRobotsTxt === true
+});
+
+const hostState = (host) => {
+  if (!hosts.has(host)) {
+    hosts.set(host, { active: 0, queue: [], nextStartAt: 0, backoffUntil: 0, blockedInRow: 0, timer: null });
+  }
+  return hosts.get(host);
+};
+
+// Start as many queued requests as the host's limits allow, and set a timer
+// for the next one if it has to wait
+const pump = (host) => {
+  const state = hostState(host);
+  clearTimeout(state.timer);
+  state.timer = null;
+  
+  while (state.queue.length > 0) {
+    const { settings, start } = state.queue[0];
+    if (state.active >= settings.maxConcurrency) return;
+    
+    const wait = Math.max(state.nextStartAt, state.backoffUntil) - Date.now();
+    if (wait > 0) {
+      state.timer = setTimeout(() => pump(host), wait);
+      return;
+    }
+    
+    state.queue.shift();
+    state.active++;
+    state.nextStartAt = Date.now() + settings.minDelayMs;
+    start();
+  }
+};
+
+// Wait for a turn on the host; call the returned function when the request is done
+const acquire = (host, settings) =>
+  new Promise(resolve => {
+    const state = hostState(host);
+    state.queue.push({
+      settings,
+      start: () => resolve(() => {
+        state.active--;
+        pump(host);
+      })
+    });
+    pump(host);
+  });
+
+// Retry-After is either seconds or an HTTP date
+const retryAfterMs = (header) => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Hold back every request to the host after a blocked response; returns the wait
+const backOff = (host, response) => {
+  const state = hostState(host);
+  state.blockedInRow++;
+  const waitMs = Math.min(
+    BACKOFF_MAX_MS,
+    retryAfterMs(response.headers?.['retry-after']) ?? BACKOFF_BASE_MS * 2 ** (state.blockedInRow - 1)
+  );
+  state.backoffUntil = Math.max(state.backoffUntil, Date.now() + waitMs);
+  return waitMs;
+};
+
+// Bodies are always returned as text, so the response cache can hash and
+// store them as received; 304 only ever answers a conditional request
+const httpGet = (url, settings, headers = {}) =>
+  axios.get(url, {
+    headers: { 'User-Agent': settings.userAgent, ...headers },
+    timeout: REQUEST_TIMEOUT_MS,
+    responseType: 'text',
+    validateStatus: status => (status >= 200 && status < 300) || status === 304
+  });
+
+// Make a request with get() once it's the host's turn
+const request = async (url, settings, headers = {}, get = httpGet) => {
+  const { host } = new URL(url);
+  const release = await acquire(host, settings);
+  try {
+    return await get(url, settings, headers);
+  } finally {
+    release();
+  }
+};
+
+// Fetch and parse robots.txt for the URL's origin. A missing or unreachable
+// file allows everything.
+const loadRobots = async (origin, settings) => {
+  try {
+    const response = await request(`${origin}/robots.txt`, settings);
+    return parseRobots(typeof response.data === 'string' ? response.data : '', settings.userAgent);
+  } catch (error) {
+    if (error.response?.status !== 404) {
+      console.error(`Error fetching robots.txt for ${origin}:`, error.message);
+    }
+    return allowAll();
+  }
+};
+
+const getRobots = (url, settings) => {
+  const { origin } = new URL(url);
+  const key = `${origin} ${settings.userAgent}`;
+  const cached = robotsCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < ROBOTS_TTL_MS) return cached.rules;
+  
+  const rules = loadRobots(origin, settings);
+  robotsCache.set(key, { fetchedAt: Date.now(), rules });
+  return rules;
+};
+
+// Fetch a URL on behalf of a site, honoring its politeness settings. Blocked
+// (429/403) responses back off and retry; onBlocked({ url, status, waitMs,
+// retrying }) is called for each one so callers can record them. Extra request
+// headers (e.g. If-None-Match) can be passed in `headers`. Throws like axios
+// once retries run out, or if robots.txt disallows the URL.
+// `get(url, settings, headers)` replaces the plain HTTP request, e.g. to load
+// the page in a browser; it must resolve like axios and throw errors with an
+// axios-like error.response for non-2xx answers, so blocks are still noticed.
+export const politeFetch = async (url, site, { onBlocked, headers, get = httpGet } = {}) => {
+  const settings = politenessFor(site);
+  
+  if (settings.respectRobotsTxt) {
+    const robots = await getRobots(url, settings);
+    const { pathname, search } = new URL(url);
+    if (!robots.isAllowed(`${pathname}${search}`)) {
+      throw new Error(`Disallowed by robots.txt: ${url}`);
+    }
+    if (robots.crawlDelayMs > settings.minDelayMs) {
+      settings.minDelayMs = robots.crawlDelayMs;
+    }
+  }
+  
+  const { host } = new URL(url);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await request(url, settings, headers, get);
+      hostState(host).blockedInRow = 0;
+      return response;
+    } catch (error) {
+      if (!BLOCKED_STATUSES.includes(error.response?.status)) throw error;
+      
+      const retrying = attempt < MAX_BLOCKED_RETRIES;
+      const waitMs = backOff(host, error.response);
+      console.error(`${url} answered ${error.response.status}; backing off ${Math.round(waitMs / 1000)}s`);
+      onBlocked?.({ url, status: error.response.status, waitMs, retrying });
+      if (!retrying) throw error;
+    }
+  }
+};
@@ -0,0 +1,72 @@
+import { createHash } from 'crypto';
+import { fetchSitePage } from './fetchers/index.js';
+
+// Search result pages are cached by URL with their validators (ETag and
+// Last-Modified) and a hash of the body. Later fetches send conditional
+// headers; a 304, or a 200 whose body hashes the same, counts as unchanged and
+// what was parsed from the page last time is reused instead of parsing again.
+
+export const hashBody = (body) => createHash('sha256').update(body).digest('hex');
+
+const conditionalHeaders = (entry) => {
+  const headers = {};
+  if (entry?.etag) headers['If-None-Match'] = entry.etag;
+  if (entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+  return headers;
+};
+
+// What parsed results depend on besides the body, so editing a site's
+// selectors or field paths makes its cached pages get parsed again
+const parserKey = (site) =>
+  hashBody(JSON.stringify([site.type || 'html', site.selectors ?? null, site.json ?? null, site.pagination ?? null]));
+
+// Fetch a page on behalf of a site through the cache, with fetchSitePage unless
+// another fetchPage is given. Returns { status, body, unchanged, entry }, where
+// entry is what's now cached for the URL.
+export const fetchCached = async (storage, url, site, { fetchPage = fetchSitePage, onBlocked } = {}) => {
+  const cached = storage.responseCache.get(url);
+  const response = await fetchPage(url, site, { onBlocked, headers: conditionalHeaders(cached) });
+  const now = new Date().toISOString();
+  
+  if (response.status === 304 && cached) {
+    storage.responseCache.touch(url, now);
+    return { status: response.status, body: cached.body, unchanged: true, entry: { ...cached, checkedAt: now } };
+  }
+  
+  const body = typeof response.data === 'string' ? response.data : '';
+  const contentHash = hashBody(body);
+  const unchanged = cached?.contentHash === contentHash;
+  const entry = {
+    url,
+    status: response.status,
+    contentType: response.headers['content-type'] ?? null,
+    etag: response.headers.etag ?? null,
+    lastModified: response.headers['last-modified'] ?? null,
+    contentHash,
+    body,
+    fetchedAt: now,
+    checkedAt: now
+  };
+  
+  storage.responseCache.save(entry);
+  // Saving drops the parsed results, which still hold for an identical body
+  if (unchanged && cached.parsed) {
+    storage.responseCache.saveParsed(url, cached.parsed);
+  }
+  
+  return { status: response.status, body, unchanged, entry: { ...entry, parsed: unchanged ? cached.parsed : null } };
+};
+
+// Extract { listings, nextPageUrl } from a page returned by fetchCached(),
+// reusing the stored results when neither the page nor the site's extraction
+// settings changed. parse(body) does the actual work otherwise.
+export const parseCached = (storage, site, page, parse) => {
+  const key = parserKey(site);
+  if (page.unchanged && page.entry.parsed?.key === key) {
+    return { ...page.entry.parsed.result, reused: true };
+  }
+  
+  const result = parse(page.body);
+  storage.responseCache.saveParsed(page.entry.url, { key, result });
+  return { ...result, reused: false };
+};
@@ -0,0 +1,79 @@
+// Minimal robots.txt support: Allow/Disallow rules with * and $ wildcards,
+// plus Crawl-delay, for the group that names our user agent (or "*").
+
+const ALLOW_ALL = { isAllowed: () => true, crawlDelayMs: null };
+
+// Turn a rule path into a regex anchored at the start of the URL path
+const ruleToRegExp = (rulePath) => {
+  const anchored = rulePath.endsWith('$');
+  const pattern = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`);
+};
+
+// Split a robots.txt into groups of { agents, rules, crawlDelay }
+const parseGroups = (text) => {
+  const groups = [];
+  let current = null;
+  let readingAgents = false;
+  
+  for (const rawLine of text.split(/\r?\n/)) {
+    const match = rawLine.replace(/#.*/, '').trim().match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+    
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!readingAgents) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+    readingAgents = false;
+    if (!current) continue;
+    
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', length: value.length, regExp: ruleToRegExp(value) });
+    } else if (field === 'crawl-delay' && !isNaN(parseFloat(value))) {
+      current.crawlDelay = parseFloat(value);
+    }
+  }
+  
+  return groups;
+};
+
+// Rules that apply to a user agent. Groups naming its product token (the part
+// before "/") win over "*". The longest matching rule decides, Allow on a tie.
+export const parseRobots = (text, userAgent) => {
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  const groups = parseGroups(text);
+  const named = groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent)));
+  const applicable = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+  if (applicable.length === 0) return ALLOW_ALL;
+  
+  const rules = applicable.flatMap(group => group.rules);
+  const delays = applicable.map(group => group.crawlDelay).filter(delay => delay != null);
+  
+  return {
+    isAllowed: (path) => {
+      if (path === '/robots.txt') return true;
+      let best = null;
+      for (const rule of rules) {
+        if (!rule.regExp.test(path)) continue;
+        if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+          best = rule;
+        }
+      }
+      return !best || best.allow;
+    },
+    crawlDelayMs: delays.length > 0 ? Math.max(...delays) * 1000 : null
+  };
+};
+
+export const allowAll = () => ALLOW_ALL;
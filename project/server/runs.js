@@ -0,0 +1,220 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { getSearchTerms } from './scraper.js';
+
+// Consecutive zero-result runs after which a site is flagged as likely broken
+const BROKEN_AFTER_EMPTY_RUNS = parseInt(process.env.BROKEN_AFTER_EMPTY_RUNS) || 3;
+
+// How many recent runs to look back through when checking site health
+const HEALTH_LOOKBACK_RUNS = 50;
+
+// Blocked responses kept in a run's log; the per-site and per-term counts keep going
+const MAX_RECORDED_BLOCKS = 100;
+
+const events = new EventEmitter();
+let activeRun = null;
+
+const emitUpdate = (run) => {
+  run.updatedAt = new Date().toISOString();
+  events.emit(run.id, run);
+};
+
+// Build the progress tracker passed to runScraper for a given run
+const createTracker = (run, sites) => {
+  const siteEntries = new Map(sites.map((site, index) => [site, run.sites[index]]));
+  const findSite = (site) => siteEntries.get(site);
+  const findTerm = (site, term, status) =>
+    findSite(site).terms.find(entry => entry.term === term && entry.status === status);
+  
+  return {
+    siteStarted: (site) => {
+      findSite(site).status = 'running';
+      emitUpdate(run);
+    },
+    termStarted: (site, term) => {
+      findTerm(site, term, 'pending').status = 'running';
+      run.current = { site: site.name, term };
+      emitUpdate(run);
+    },
+    termFinished: (site, term, { jobsFound, pages, unchangedPages = 0, httpStatus, error }) => {
+      const entry = findTerm(site, term, 'running');
+      entry.status = error ? 'failed' : 'done';
+      entry.jobsFound = jobsFound;
+      entry.pages = pages;
+      entry.unchangedPages = unchangedPages;
+      entry.httpStatus = httpStatus;
+      entry.error = error;
+      run.completedSteps++;
+      run.jobsFound += jobsFound;
+      if (error) {
+        run.errors.push({ site: site.name, term, message: error });
+      }
+      emitUpdate(run);
+    },
+    // A 429/403 response made the request scheduler back off; term is null
+    // for detail pages
+    requestBlocked: (site, term, { url, status, waitMs, retrying }) => {
+      findSite(site).blocked++;
+      if (term !== null) findTerm(site, term, 'running').blocked++;
+      run.blockedRequests++;
+      if (run.blocks.length < MAX_RECORDED_BLOCKS) {
+        run.blocks.push({ site: site.name, term, url, status, waitMs, retrying, at: new Date().toISOString() });
+      }
+      emitUpdate(run);
+    },
+    siteFinished: (site, { jobsFound, newJobs, excludedJobs = 0, detailsFetched = 0, detailsFailed = 0 }) => {
+      const entry = findSite(site);
+      entry.status = entry.terms.every(term => term.status === 'failed') ? 'failed' : 'done';
+      entry.jobsFound = jobsFound;
+      entry.newJobs = newJobs;
+      entry.excludedJobs = excludedJobs;
+      entry.detailsFetched = detailsFetched;
+      entry.detailsFailed = detailsFailed;
+      run.newJobs += newJobs;
+      emitUpdate(run);
+    }
+  };
+};
+
+// A run still marked as running in storage was cut off by a server restart
+const markInterrupted = (run) => ({
+  ...run,
+  status: 'failed',
+  current: null,
+  errors: [...run.errors, { site: null, term: null, message: 'Server stopped before the run finished' }]
+});
+
+export const getRun = (storage, id) => {
+  if (activeRun?.id === id) return activeRun;
+  const run = storage.runs.get(id);
+  return run?.status === 'running' ? markInterrupted(run) : run;
+};
+
+export const getActiveRun = () => activeRun;
+
+export const listRuns = (storage, { limit, offset } = {}) => ({
+  runs: storage.runs.list({ limit, offset })
+    .map(run => (run.status === 'running' && run.id !== activeRun?.id ? markInterrupted(run) : run)),
+  total: storage.runs.count()
+});
+
+// Report, per site, how many of its most recent finished runs in a row
+// returned no jobs, and flag it once that reaches BROKEN_AFTER_EMPTY_RUNS
+export const getSiteHealth = (storage, sites) => {
+  const recentRuns = storage.runs.list({ limit: HEALTH_LOOKBACK_RUNS })
+    .filter(run => run.status !== 'running');
+  
+  return sites.map(({ id, name }) => {
+    // Runs recorded before sites had ids only carry the name
+    const matches = (entry) => (entry.siteId ? entry.siteId === id : entry.name === name);
+    const siteRuns = recentRuns
+      .map(run => ({ run, entry: run.sites.find(matches) }))
+      .filter(({ entry }) => entry);
+    
+    let emptyRuns = 0;
+    for (const { entry } of siteRuns) {
+      if (entry.jobsFound > 0) break;
+      emptyRuns++;
+    }
+    
+    const last = siteRuns[0];
+    const lastError = last?.entry.terms.find(term => term.error)?.error ?? null;
+    
+    return {
+      siteId: id,
+      name,
+      emptyRuns,
+      broken: emptyRuns >= BROKEN_AFTER_EMPTY_RUNS,
+      lastRunAt: last?.run.startedAt ?? null,
+      lastJobsFound: last?.entry.jobsFound ?? null,
+      lastError
+    };
+  });
+};
+
+// Start a background run over the given sites. `execute` receives a progress
+// tracker and resolves with the total job count. Only one run can be active at
+// a time; returns null if another run is in progress.
+export const startRun = (storage, sites, execute) => {
+  if (activeRun) return null;
+  
+  const run = {
+    id: randomUUID(),
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    finishedAt: null,
+    totalSteps: sites.reduce((sum, site) => sum + getSearchTerms(site).length, 0),
+    completedSteps: 0,
+    current: null,
+    jobsFound: 0,
+    newJobs: 0,
+    totalJobs: null,
+    blockedRequests: 0,
+    sites: sites.map(site => ({
+      siteId: site.id,
+      name: site.name,
+      status: 'pending',
+      jobsFound: 0,
+      newJobs: 0,
+      excludedJobs: 0,
+      detailsFetched: 0,
+      detailsFailed: 0,
+      blocked: 0,
+      terms: getSearchTerms(site).map(term => ({
+        term,
+        status: 'pending',
+        jobsFound: 0,
+        pages: 0,
+        unchangedPages: 0,
+        httpStatus: null,
+        blocked: 0,
+        error: null
+      }))
+    })),
+    blocks: [],
+    errors: []
+  };
+  
+  // Saved before it becomes the active run, so a failed save can't leave a
+  // run that never finishes blocking every later one
+  storage.runs.save(run);
+  activeRun = run;
+  
+  execute(createTracker(run, sites))
+    .then((totalJobs) => {
+      run.status = 'completed';
+      run.totalJobs = totalJobs;
+    })
+    .catch((error) => {
+      console.error('Error during scrape:', error);
+      run.status = 'failed';
+      run.errors.push({ site: null, term: null, message: error.message });
+    })
+    .finally(() => {
+      run.current = null;
+      run.finishedAt = new Date().toISOString();
+      try {
+        storage.runs.save(run);
+      } catch (error) {
+        console.error('Error saving run:', error);
+      }
+      activeRun = null;
+      emitUpdate(run);
+      events.emit('finished', run);
+    });
+  
+  return run;
+};
+
+// Listen for updates to a run; returns a function that stops listening
+export const subscribe = (id, listener) => {
+  events.on(id, listener);
+  return () => events.off(id, listener);
+};
+
+// Listen for any run finishing
+export const onRunFinished = (listener) => {
+  events.on('finished', listener);
+  return () => events.off('finished', listener);
+};
@@ -0,0 +1,55 @@
+import { notify } from './notifications/index.js';
+import { nearFilter } from './locations.js';
+
+// Most matches recorded for one saved search in a single run
+const MAX_MATCHES_PER_RUN = 500;
+
+// Job query filters a saved search may carry; paging is always ours
+const FILTER_KEYS = ['q', 'source', 'keyword', 'status', 'from', 'to', 'workMode', 'location', 'near', 'within', 'sort'];
+
+// Keep only known, non-empty filters
+export const cleanFilters = (filters = {}) => {
+  const cleaned = {};
+  for (const key of FILTER_KEYS) {
+    if (filters[key]) cleaned[key] = filters[key];
+  }
+  return cleaned;
+};
+
+const matchMessage = (search, jobs) => ({
+  title: `${jobs.length} new job${jobs.length === 1 ? '' : 's'} for "${search.name}"`,
+  text: jobs.slice(0, 3).map(job => job.title).join(', ') + (jobs.length > 3 ? ` and ${jobs.length - 3} more` : ''),
+  userId: search.userId,
+  searchId: search.id,
+  searchName: search.name,
+  jobs: jobs.map(({ id, title, company, location, link }) => ({ id, title, company, location, link })),
+  createdAt: new Date().toISOString()
+});
+
+// Record the jobs first seen since `since` that match each user's saved
+// searches and notify them. Jobs a user hid never match their searches.
+// Returns [{ searchId, name, newMatches }].
+export const evaluateSavedSearches = async (storage, since) => {
+  const results = [];
+  
+  for (const search of storage.savedSearches.list()) {
+    const filters = cleanFilters(search.filters);
+    const { jobs } = storage.jobs.query({
+      ...filters,
+      near: filters.near ? nearFilter(filters.near, filters.within) : undefined,
+      firstSeenFrom: since,
+      userId: search.userId,
+      limit: MAX_MATCHES_PER_RUN,
+      offset: 0
+    });
+    const newIds = new Set(storage.savedSearches.addMatches(search.id, jobs.map(job => job.id), since));
+    const newJobs = jobs.filter(job => newIds.has(job.id));
+    
+    results.push({ searchId: search.id, name: search.name, newMatches: newJobs.length });
+    if (newJobs.length > 0) {
+      await notify(storage, search.notify, matchMessage(search, newJobs));
+    }
+  }
+  
+  return results;
+};
@@ -0,0 +1,67 @@
+import cron from 'node-cron';
+import cronParser from 'cron-parser';
+
+// Schedule used by sites that don't set their own
+export const DEFAULT_SCHEDULE = '0 0 * * *';
+
+let tasks = [];
+let pendingSites = new Set();
+let startSitesRun = () => null;
+
+const scheduleFor = (site) => site.schedule?.trim() || DEFAULT_SCHEDULE;
+
+export const isValidSchedule = (expression) => cron.validate(expression);
+
+// Next time a site's schedule fires, or null if it's paused or invalid
+export const getNextRun = (site) => {
+  if (site.enabled === false) return null;
+  try {
+    return cronParser.parseExpression(scheduleFor(site)).next().toDate().toISOString();
+  } catch {
+    return null;
+  }
+};
+
+// Start a run for every site waiting on a schedule, unless one is already going.
+// Called again when a run finishes so schedules that fire mid-run aren't lost.
+export const drainPending = () => {
+  if (pendingSites.size === 0) return;
+  
+  const siteIds = [...pendingSites];
+  if (startSitesRun(siteIds)) {
+    console.log(`Started scheduled scrape for ${siteIds.length} site(s)`);
+    pendingSites = new Set();
+  }
+};
+
+// Replace all scheduled tasks with one per enabled site. `startRun` is given
+// the ids of the sites to scrape and returns null when a run is already active.
+export const rebuildSchedules = (sites, startRun) => {
+  startSitesRun = startRun;
+  for (const task of tasks) {
+    task.stop();
+  }
+  
+  tasks = sites
+    .filter(site => site.enabled !== false)
+    .filter(site => {
+      if (isValidSchedule(scheduleFor(site))) return true;
+      console.error(`Invalid schedule "${site.schedule}" for ${site.name}; not scheduling it`);
+      return false;
+    })
+    .map(site => cron.schedule(scheduleFor(site), () => {
+      pendingSites.add(site.id);
+      drainPending();
+    }));
+  
+  // Drop queued sites that were removed or paused
+  const scheduled = new Set(sites.filter(site => site.enabled !== false).map(site => site.id));
+  pendingSites = new Set([...pendingSites].filter(id => scheduled.has(id)));
+};
+
+export const stopSchedules = () => {
+  for (const task of tasks) {
+    task.stop();
+  }
+  tasks = [];
+};
@@ -0,0 +1,341 @@
+import * as cheerio from 'cheerio';
+import { dedupeJobs } from './dedupe.js';
+import { getExtractor } from './extractors/index.js';
+import { evaluateSavedSearches } from './savedSearches.js';
+import { fetchSitePage } from './fetchers/index.js';
+import { fetchCached, parseCached } from './responseCache.js';
+import { getRelevanceRules, rulesForSite, withRelevance } from './relevance.js';
+import { withLocation } from './locations.js';
+import { blockText, parsePostedDate } from './extractors/common.js';
+
+// Number of consecutive runs a listing can be missing before it's marked expired
+const EXPIRE_AFTER_RUNS = parseInt(process.env.EXPIRE_AFTER_RUNS) || 3;
+
+// Maximum number of detail pages requested at once for a site; the request
+// scheduler may hold them back further to respect the host's limits
+const DETAIL_CONCURRENCY = parseInt(process.env.DETAIL_CONCURRENCY) || 3;
+
+// Job fields filled in from detail pages, keyed like site.selectors.detail
+const DETAIL_FIELDS = ['description', 'salary', 'employmentType', 'postedDate'];
+
+// Every page is fetched with a fetchPage(url, site, { onBlocked, headers })
+// function resolving to an axios-like { status, data, headers }. Live scrapes
+// use fetchSitePage, which picks a fetcher by the site's render mode;
+// fixtures.js supplies one that replays recorded responses.
+
+// Progress callbacks used by runScraper; runs.js provides the real implementation
+const noopTracker = {
+  siteStarted: () => {},
+  termStarted: () => {},
+  termFinished: () => {},
+  requestBlocked: () => {},
+  siteFinished: () => {}
+};
+
+// Search terms to scrape a site for. Feeds and APIs that don't take a search
+// are fetched once with an empty term.
+export const getSearchTerms = (site) =>
+  site.searchTerms?.length ? site.searchTerms : [''];
+
+// Build the URL for a given results page (0-based) of a search term
+const buildPageUrl = (site, term, page) => {
+  const searchUrl = `${site.url}${encodeURIComponent(term)}`;
+  const template = site.pagination?.pageParam;
+  
+  if (page === 0 || !template) {
+    return searchUrl;
+  }
+  
+  const pageSize = site.pagination.pageSize || 10;
+  const param = template
+    .replace('{page}', String(page + 1))
+    .replace('{offset}', String(page * pageSize));
+  
+  return `${searchUrl}${param}`;
+};
+
+// Scrape every results page for one search term. Returns the jobs found, the
+// number of pages fetched and how many of them were unchanged since the last
+// run, the last HTTP status and the error that stopped it early, if any.
+// onBlocked is told about each 429/403 response.
+const scrapeTerm = async (storage, site, term, { fetchPage, onBlocked, log }) => {
+  const jobs = [];
+  const seenIds = new Set();
+  const pagination = site.pagination || {};
+  const maxPages = Math.max(1, parseInt(pagination.maxPages) || 1);
+  const extractor = getExtractor(site);
+  let pageUrl = buildPageUrl(site, term, 0);
+  let pages = 0;
+  let unchangedPages = 0;
+  let httpStatus = null;
+  
+  for (let page = 0; page < maxPages && pageUrl; page++) {
+    try {
+      log(`Scraping ${site.name} for "${term}" (page ${page + 1}) at ${pageUrl}`);
+      
+      const fetched = await fetchCached(storage, pageUrl, site, { fetchPage, onBlocked });
+      pages++;
+      httpStatus = fetched.status;
+      
+      const { listings, nextPageUrl, reused } = parseCached(storage, site, fetched,
+        (body) => extractor.parsePage(site, body, pageUrl));
+      if (reused) unchangedPages++;
+      let newOnPage = 0;
+      
+      for (const listing of listings) {
+        if (!listing.title) continue;
+        
+        const id = `${site.name}-${listing.title}-${listing.company}`.replace(/[^a-zA-Z0-9]/g, '-');
+        
+        // Some boards repeat the last page when asked for one past the end
+        if (seenIds.has(id)) continue;
+        seenIds.add(id);
+        newOnPage++;
+        
+        jobs.push({
+          id,
+          ...listing,
+          source: site.name,
+          keyword: term,
+          date: new Date().toISOString()
+        });
+      }
+      
+      // Stop when a page has no (new) results or there's no way to reach the next one
+      if (newOnPage === 0 || !(nextPageUrl || pagination.pageParam)) {
+        break;
+      }
+      
+      pageUrl = nextPageUrl || buildPageUrl(site, term, page + 1);
+    } catch (error) {
+      console.error(`Error scraping ${site.name} for "${term}" (page ${page + 1}):`, error.message);
+      return { jobs, pages, unchangedPages, httpStatus: error.response?.status ?? null, error: error.message };
+    }
+  }
+  
+  return { jobs, pages, unchangedPages, httpStatus, error: null };
+};
+
+// Run fn over items with at most `limit` calls in flight at once
+const mapWithConcurrency = async (items, limit, fn) => {
+  const results = new Array(items.length);
+  let next = 0;
+  
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+const hasDetailSelectors = (site) =>
+  DETAIL_FIELDS.some(field => site.selectors?.detail?.[field]);
+
+// Fetch a job's detail page and extract the fields configured in site.selectors.detail
+const scrapeDetails = async (site, job, { fetchPage, onBlocked }) => {
+  const response = await fetchPage(job.link, site, { onBlocked });
+  const $ = cheerio.load(response.data);
+  const selectors = site.selectors.detail;
+  const details = { detailFetchedAt: new Date().toISOString() };
+  
+  if (selectors.description) {
+    const el = $(selectors.description).first();
+    if (el.length) details.description = blockText($, el);
+  }
+  if (selectors.salary) {
+    const salary = $(selectors.salary).first().text().replace(/\s+/g, ' ').trim();
+    if (salary) details.salary = salary;
+  }
+  if (selectors.employmentType) {
+    const employmentType = $(selectors.employmentType).first().text().replace(/\s+/g, ' ').trim();
+    if (employmentType) details.employmentType = employmentType;
+  }
+  if (selectors.postedDate) {
+    const el = $(selectors.postedDate).first();
+    const postedDate = parsePostedDate(el.attr('datetime') || el.text());
+    if (postedDate) details.postedDate = postedDate;
+  }
+  
+  return details;
+};
+
+// Fill in detail fields on scraped jobs that don't have them stored yet.
+// Updates the jobs in place and returns how many pages were fetched or failed.
+export const fetchMissingDetails = async (storage, site, scrapedJobs, tracker = noopTracker, { fetchPage = fetchSitePage } = {}) => {
+  if (!hasDetailSelectors(site)) return { fetched: 0, failed: 0 };
+  
+  const stored = new Map(storage.jobs.listBySource(site.name).map(job => [job.id, job]));
+  const pending = [];
+  const seenIds = new Set();
+  for (const job of scrapedJobs) {
+    if (seenIds.has(job.id) || !job.link || stored.get(job.id)?.detailFetchedAt) continue;
+    seenIds.add(job.id);
+    pending.push(job);
+  }
+  
+  let fetched = 0;
+  let failed = 0;
+  await mapWithConcurrency(pending, DETAIL_CONCURRENCY, async (job) => {
+    try {
+      Object.assign(job, await scrapeDetails(site, job, {
+        fetchPage,
+        onBlocked: (blocked) => tracker.requestBlocked(site, null, blocked)
+      }));
+      fetched++;
+    } catch (error) {
+      console.error(`Error fetching details for ${job.link}:`, error.message);
+      failed++;
+    }
+  });
+  
+  return { fetched, failed };
+};
+
+// Detail fields a fresh scrape brought back, to copy onto an existing job
+const pickDetails = (job) => {
+  if (!job.detailFetchedAt) return {};
+  const details = { detailFetchedAt: job.detailFetchedAt };
+  for (const field of DETAIL_FIELDS) {
+    if (job[field] !== undefined) details[field] = job[field];
+  }
+  return details;
+};
+
+// Run one search term against a site's first results page without saving
+// anything, reporting what its selectors (or field paths) matched
+export const testSite = async (site, { term = getSearchTerms(site)[0], limit = 5, fetchPage = fetchSitePage } = {}) => {
+  const url = buildPageUrl(site, term, 0);
+  const response = await fetchPage(url, site);
+  const { selectors, samples } = getExtractor(site).testPage(site, response.data, limit);
+  
+  return { url, term, httpStatus: response.status, selectors, samples };
+};
+
+// Scrape job listings from a website. Results pages go through the response
+// cache in storage, so unchanged pages aren't parsed again. Progress goes to
+// `log`, console.log unless the caller keeps stdout for something else.
+export const scrapeJobs = async (storage, site, tracker = noopTracker, { fetchPage = fetchSitePage, log = console.log } = {}) => {
+  const jobs = [];
+  
+  for (const term of getSearchTerms(site)) {
+    tracker.termStarted(site, term);
+    const result = await scrapeTerm(storage, site, term, {
+      fetchPage,
+      log,
+      onBlocked: (blocked) => tracker.requestBlocked(site, term, blocked)
+    });
+    tracker.termFinished(site, term, {
+      jobsFound: result.jobs.length,
+      pages: result.pages,
+      unchangedPages: result.unchangedPages,
+      httpStatus: result.httpStatus,
+      error: result.error
+    });
+    jobs.push(...result.jobs);
+  }
+  
+  return jobs;
+};
+
+// Work out which of a site's stored jobs changed after a scrape, maintaining
+// lifecycle fields and scoring every job found against the site's relevance
+// rules. New jobs that hit an exclude term are left out when the rules say to
+// drop them; `excluded` counts every found job that hit one.
+const mergeSiteJobs = (existingJobs, scrapedJobs, now, rules) => {
+  const byId = new Map(existingJobs.map(job => [job.id, job]));
+  const seenIds = new Set();
+  const changed = [];
+  let added = 0;
+  let excluded = 0;
+  
+  for (const scraped of scrapedJobs) {
+    if (seenIds.has(scraped.id)) continue;
+    seenIds.add(scraped.id);
+    
+    const existing = byId.get(scraped.id);
+    const job = withRelevance(withLocation(existing
+      ? { ...existing, ...pickDetails(scraped), lastSeen: now, missedRuns: 0, status: 'active' }
+      : { ...scraped, date: now, firstSeen: now, lastSeen: now, missedRuns: 0, status: 'active' }), rules);
+    
+    if (job.excludedBy) {
+      excluded++;
+      if (!existing && rules.excludeAction === 'drop') continue;
+    }
+    if (!existing) added++;
+    changed.push(job);
+  }
+  
+  // A run that found nothing at all is more likely a failed scrape than every
+  // listing disappearing at once, so don't count it against existing jobs
+  if (scrapedJobs.length > 0) {
+    for (const job of existingJobs) {
+      if (seenIds.has(job.id) || job.status === 'expired') continue;
+      
+      const missedRuns = (job.missedRuns || 0) + 1;
+      changed.push({
+        ...job,
+        missedRuns,
+        status: missedRuns >= EXPIRE_AFTER_RUNS ? 'expired' : job.status
+      });
+    }
+  }
+  
+  return { changed, added, excluded };
+};
+
+// Run scraper for the given sites, merging results into storage
+export const runScraper = async (storage, sites, tracker = noopTracker, { fetchPage = fetchSitePage, log = console.log } = {}) => {
+  log('Starting job scraper...');
+  const now = new Date().toISOString();
+  const globalRules = getRelevanceRules(storage);
+  
+  for (const site of sites) {
+    tracker.siteStarted(site);
+    const newJobs = await scrapeJobs(storage, site, tracker, { fetchPage, log });
+    log(`Found ${newJobs.length} jobs from ${site.name}`);
+    
+    const details = await fetchMissingDetails(storage, site, newJobs, tracker, { fetchPage });
+    if (details.fetched || details.failed) {
+      log(`Fetched ${details.fetched} detail pages from ${site.name} (${details.failed} failed)`);
+    }
+    
+    // Each site is merged in its own transaction, so edits made while a
+    // scrape is in progress are never overwritten
+    const { added, excluded } = storage.transaction(() => {
+      const existingJobs = storage.jobs.listBySource(site.name);
+      const { changed, added, excluded } = mergeSiteJobs(existingJobs, newJobs, now, rulesForSite(globalRules, site));
+      storage.jobs.upsertMany(changed);
+      return { added, excluded };
+    });
+    
+    tracker.siteFinished(site, {
+      jobsFound: newJobs.length,
+      newJobs: added,
+      excludedJobs: excluded,
+      detailsFetched: details.fetched,
+      detailsFailed: details.failed
+    });
+  }
+  
+  // Fold the same posting found on several boards into one canonical job
+  const deduped = storage.transaction(() => {
+    const changed = dedupeJobs(storage.jobs.list());
+    storage.jobs.upsertMany(changed);
+    return changed.length;
+  });
+  log(`Deduplication updated ${deduped} jobs`);
+  
+  // Record the new jobs matching each saved search and send its notifications
+  for (const { name, newMatches } of await evaluateSavedSearches(storage, now)) {
+    if (newMatches) log(`Saved search "${name}" matched ${newMatches} new jobs`);
+  }
+  
+  const jobCount = storage.jobs.count();
+  log(`Scraping complete. Total jobs: ${jobCount}`);
+  
+  return jobCount;
+};
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { siteErrors } from './siteValidation.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Site bundles wrap portable site configs so they can be shared between installs:
+//   { format: 'job-scraper-sites', version: 1, name?, description?, exportedAt?, sites: [...] }
+// Presets are bundles shipped in server/presets, identified by file name.
+export const BUNDLE_FORMAT = 'job-scraper-sites';
+export const BUNDLE_VERSION = 1;
+
+const PRESETS_DIR = path.join(__dirname, 'presets');
+
+// Preset that seeds the site list of a fresh install
+export const DEFAULT_PRESET = 'indeed-linkedin';
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Site config without the id and version assigned by this install. New sites
+// are added from this, so they always get a fresh id.
+export const toPortable = (site) => {
+  const config = { ...site };
+  delete config.id;
+  delete config.version;
+  return config;
+};
+
+// Sites are matched across installs by name, ignoring case
+const nameKey = (name) => name.trim().toLowerCase();
+
+export const createBundle = (sites, { name, description } = {}) => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  ...(name && { name }),
+  ...(description && { description }),
+  exportedAt: new Date().toISOString(),
+  sites: sites.map(toPortable)
+});
+
+// Problems with a bundle or any of its sites; empty when it can be imported
+export const validateBundle = (bundle) => {
+  if (!isPlainObject(bundle)) return ['Bundle must be a JSON object'];
+  if (bundle.format !== BUNDLE_FORMAT) return [`Not a site bundle (expected format "${BUNDLE_FORMAT}")`];
+  if (!Number.isInteger(bundle.version) || bundle.version < 1) return ['Bundle version is missing or invalid'];
+  if (bundle.version > BUNDLE_VERSION) {
+    return [`Bundle version ${bundle.version} is newer than this server supports (${BUNDLE_VERSION})`];
+  }
+  if (!Array.isArray(bundle.sites) || bundle.sites.length === 0) return ['Bundle has no sites'];
+  
+  const errors = [];
+  const names = new Set();
+  bundle.sites.forEach((site, index) => {
+    const label = `Site ${index + 1}${typeof site?.name === 'string' && site.name ? ` (${site.name})` : ''}`;
+    const fieldErrors = Object.entries(siteErrors(site));
+    if (fieldErrors.length > 0) {
+      errors.push(...fieldErrors.map(([field, message]) => `${label}, ${field}: ${message}`));
+    } else if (names.has(nameKey(site.name))) {
+      errors.push(`${label}: name appears more than once in the bundle`);
+    } else {
+      names.add(nameKey(site.name));
+    }
+  });
+  return errors;
+};
+
+// Dotted paths of the fields that differ between two site configs
+const changedFields = (before, after, prefix = '') => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].flatMap(key => {
+    const field = `${prefix}${key}`;
+    if (isPlainObject(before[key]) && isPlainObject(after[key])) {
+      return changedFields(before[key], after[key], `${field}.`);
+    }
+    return JSON.stringify(before[key]) === JSON.stringify(after[key]) ? [] : [field];
+  });
+};
+
+// Compare a valid bundle with the current sites. Each bundled site is 'new',
+// 'unchanged', or a 'conflict' when a site of the same name is set up differently.
+export const diffBundle = (bundle, existingSites) => {
+  const byName = new Map(existingSites.map(site => [nameKey(site.name), site]));
+  return bundle.sites.map(site => {
+    const existing = byName.get(nameKey(site.name));
+    if (!existing) {
+      return { site, status: 'new', existingId: null, changes: [] };
+    }
+    const changes = changedFields(toPortable(existing), toPortable(site));
+    return { site, status: changes.length > 0 ? 'conflict' : 'unchanged', existingId: existing.id, changes };
+  });
+};
+
+// What happens to a bundled site when the import doesn't say
+const DEFAULT_ACTIONS = { new: 'add', unchanged: 'skip', conflict: 'skip' };
+
+// Import a valid bundle. resolutions[i] = { action, name? } decides what
+// happens to bundle.sites[i]: 'add' it (as `name` when given, to sidestep a
+// clash), 'replace' the existing site with the same name, or 'skip' it.
+// Returns { errors } without changing anything if the choices don't work out,
+// otherwise { added, replaced, skipped }.
+export const importBundle = (storage, bundle, resolutions = []) => {
+  const existingSites = storage.sites.list();
+  const takenNames = new Set(existingSites.map(site => nameKey(site.name)));
+  const errors = [];
+  const steps = diffBundle(bundle, existingSites).map((entry, index) => {
+    const resolution = resolutions[index] || {};
+    const action = resolution.action || DEFAULT_ACTIONS[entry.status];
+    const label = `Site ${index + 1} (${entry.site.name})`;
+    
+    if (action === 'replace') {
+      if (!entry.existingId) errors.push(`${label}: there is no existing site to replace`);
+      return { action, id: entry.existingId, site: entry.site };
+    }
+    if (action === 'add') {
+      const name = typeof resolution.name === 'string' && resolution.name.trim() ? resolution.name.trim() : entry.site.name;
+      if (takenNames.has(nameKey(name))) {
+        errors.push(`${label}: a site named "${name}" already exists; rename it or replace the existing site`);
+      }
+      takenNames.add(nameKey(name));
+      return { action, site: { ...entry.site, name } };
+    }
+    if (action !== 'skip') errors.push(`${label}: unknown action "${action}"`);
+    return { action: 'skip' };
+  });
+  
+  if (errors.length > 0) return { errors };
+  
+  const counts = { added: 0, replaced: 0, skipped: 0 };
+  storage.transaction(() => {
+    for (const step of steps) {
+      if (step.action === 'add') {
+        storage.sites.add(toPortable(step.site));
+        counts.added++;
+      } else if (step.action === 'replace') {
+        storage.sites.update(step.id, step.site);
+        counts.replaced++;
+      } else {
+        counts.skipped++;
+      }
+    }
+  });
+  return counts;
+};
+
+const readPresets = () =>
+  fs.readdirSync(PRESETS_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => ({
+      id: path.basename(file, '.json'),
+      bundle: JSON.parse(fs.readFileSync(path.join(PRESETS_DIR, file), 'utf8'))
+    }));
+
+const presets = readPresets();
+
+export const listPresets = () =>
+  presets.map(({ id, bundle }) => ({
+    id,
+    name: bundle.name || id,
+    description: bundle.description || '',
+    siteCount: bundle.sites.length
+  }));
+
+export const getPreset = (id) => presets.find(preset => preset.id === id)?.bundle || null;
@@ -0,0 +1,14 @@
+import { validateSite } from '../shared/siteSchema.js';
+import { isValidSchedule } from './scheduler.js';
+
+// Field-level problems with a site payload: the shared schema plus the cron
+// schedule, which only the server can check. Empty when the site can be saved.
+export const siteErrors = (site) => {
+  const errors = validateSite(site);
+  if (site?.schedule != null && (typeof site.schedule !== 'string' || !isValidSchedule(site.schedule))) {
+    errors.schedule = 'Invalid cron schedule';
+  }
+  return errors;
+};
+
+export const hasErrors = (errors) => Object.keys(errors).length > 0;
@@ -0,0 +1,109 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createSqliteStorage } from './sqlite.js';
+import { migrateFromJson } from './migrate.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/*
+ * Storage interface used by the server. Any backend must provide:
+ *
+ *   jobs.list()                 -> Job[] sorted by date, newest first
+ *   jobs.get(id, userId?)       -> Job with userId's userState, or null
+ *   jobs.listBySource(source)   -> Job[]
+ *   jobs.count()                -> number
+ *   jobs.query(filters)         -> { jobs, total } for { q, source, keyword, status,
+ *                                  from, to, firstSeenFrom, workMode, location, near,
+ *                                  sort, limit, offset, includeDuplicates, includeHidden,
+ *                                  hideExcluded, userId }; with a userId, that user's
+ *                                  hidden jobs are left out and each job carries their
+ *                                  userState when they have one
+ *   jobs.facets()               -> { sources, keywords, locations } across all jobs
+ *   jobs.upsertMany(jobs)       -> insert or replace by id
+ *
+ *   jobStates.get(userId, jobId) -> { jobId, stage, appliedAt, hidden, notes, updatedAt } or null
+ *   jobStates.listTracked(userId) -> Job[] the user gave a stage, with their userState
+ *   jobStates.update(userId, jobId, changes) -> merged state, or null once it's empty
+ *
+ *   sites.list()                -> Site[] in display order, each with id and version
+ *   sites.get(id)               -> Site or null
+ *   sites.add(site)             -> Site with a new id and version 1
+ *   sites.update(id, site, expectedVersion?) -> { status, site } where status is
+ *                                  'ok', 'not_found' or 'conflict'
+ *   sites.remove(id, expectedVersion?)       -> { status, site }
+ *   sites.replaceAll(sites)
+ *
+ *   runs.save(run)              -> insert or replace a scrape run by id
+ *   runs.get(id)                -> run or null
+ *   runs.list({ limit, offset }) -> runs, most recent first
+ *   runs.count()                -> number
+ *
+ *   savedSearches.list(userId?) -> SavedSearch[] oldest first, each with userId,
+ *                                  matchCount, unreadCount and lastMatchedAt; only
+ *                                  userId's when given
+ *   savedSearches.get(id)       -> SavedSearch or null
+ *   savedSearches.add(search)   -> SavedSearch with a new id, owned by search.userId
+ *   savedSearches.update(id, search) -> SavedSearch, or null if not found
+ *   savedSearches.remove(id)    -> whether it existed; its matches go with it
+ *   savedSearches.addMatches(id, jobIds, matchedAt) -> ids not already recorded
+ *   savedSearches.matches(id, { limit, offset }) -> { jobs, total }, newest match first
+ *   savedSearches.markRead(id)  -> number of matches marked read
+ *
+ *   notifications.add(notification) -> Notification with id, createdAt and read, for
+ *                                  notification.userId
+ *   notifications.list(userId, { limit, offset, unreadOnly }) -> newest first
+ *   notifications.countUnread(userId) -> number
+ *   notifications.markRead(userId, ids?) -> number marked; all unread when ids is omitted
+ *
+ *   responseCache.get(url)      -> { url, status, contentType, etag, lastModified,
+ *                                  contentHash, size, fetchedAt, checkedAt, body,
+ *                                  parsed } or null
+ *   responseCache.save(entry)   -> insert or replace by url, dropping parsed
+ *   responseCache.touch(url, checkedAt)
+ *   responseCache.saveParsed(url, parsed) -> keep what was extracted from the body
+ *   responseCache.list({ q, limit, offset }) -> { entries, total, totalSize }, most
+ *                                  recently checked first, without bodies
+ *   responseCache.remove(url)   -> whether it existed
+ *   responseCache.clear()       -> number of entries removed
+ *
+ *   users.list()                -> User[] ({ id, username, role, createdAt }), oldest first
+ *   users.get(id)               -> User or null
+ *   users.findByUsername(username) -> User with passwordHash, or null; ignores case
+ *   users.count()               -> number
+ *   users.add({ username, passwordHash, role }) -> User; the first one added takes over
+ *                                  job states, saved searches and notifications saved
+ *                                  before there were users
+ *   users.addFirstAdmin({ username, passwordHash }) -> admin User, or null if any user
+ *                                  already exists; checked and added in one step
+ *   users.update(id, { role?, passwordHash? }) -> User, or null if not found
+ *   users.remove(id)            -> whether it existed; their sessions and state go with it
+ *
+ *   sessions.add({ tokenHash, userId, expiresAt })
+ *   sessions.get(tokenHash)     -> { userId, createdAt, expiresAt } or null
+ *   sessions.remove(tokenHash)  -> whether it existed
+ *   sessions.removeForUser(userId) -> number removed
+ *   sessions.removeExpired(now) -> number removed
+ *
+ *   meta.get(key) / meta.set(key, value)
+ *   transaction(fn)             -> runs fn atomically
+ *   close()
+ */
+
+// Database file, overridable so tests or other tools can point elsewhere
+const DB_FILE = process.env.JOBS_DB || path.join(__dirname, '..', 'jobs.db');
+
+// Legacy flat files imported on first start
+const LEGACY_JOBS_FILE = path.join(__dirname, '..', 'jobs.json');
+const LEGACY_SITES_FILE = path.join(__dirname, '..', 'sites.json');
+
+// `log` reports the one-time import of the legacy files
+export const openStorage = ({ filename = DB_FILE, defaultSites = [], log } = {}) => {
+  const storage = createSqliteStorage(filename);
+  migrateFromJson(storage, {
+    jobsFile: LEGACY_JOBS_FILE,
+    sitesFile: LEGACY_SITES_FILE,
+    defaultSites,
+    log
+  });
+  return storage;
+};
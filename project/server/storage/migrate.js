@@ -0,0 +1,41 @@
+import fs from 'fs';
+
+// Read a legacy JSON file, returning null if it doesn't exist or can't be parsed
+const readJsonFile = (file) => {
+  if (!fs.existsSync(file)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    console.error(`Error reading ${file}:`, error);
+    return null;
+  }
+};
+
+// Fill in lifecycle fields for jobs saved before they were tracked
+const withLifecycle = (job) => ({
+  ...job,
+  firstSeen: job.firstSeen || job.date,
+  lastSeen: job.lastSeen || job.date,
+  missedRuns: job.missedRuns || 0,
+  status: job.status || 'active'
+});
+
+// One-time import of jobs.json/sites.json into a fresh store. Falls back to
+// defaultSites when there is no sites file to import. The JSON files are left
+// in place; a meta flag keeps the import from running again.
+export const migrateFromJson = (storage, { jobsFile, sitesFile, defaultSites = [], log = console.log }) => {
+  if (storage.meta.get('initialized')) return;
+
+  const jobs = readJsonFile(jobsFile);
+  const sites = readJsonFile(sitesFile);
+
+  storage.transaction(() => {
+    if (Array.isArray(jobs)) {
+      storage.jobs.upsertMany(jobs.map(withLifecycle));
+    }
+    storage.sites.replaceAll(Array.isArray(sites) ? sites : defaultSites);
+    storage.meta.set('initialized', new Date().toISOString());
+  });
+
+  log(`Initialized storage (${jobs?.length || 0} jobs, ${sites?.length ?? defaultSites.length} sites)`);
+};
@@ -0,0 +1,881 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+
+// Columns stored natively on the jobs table; anything else on a job is kept in `extra`
+const JOB_COLUMNS = {
+  id: 'id',
+  title: 'title',
+  company: 'company',
+  location: 'location',
+  link: 'link',
+  source: 'source',
+  keyword: 'keyword',
+  date: 'date',
+  firstSeen: 'first_seen',
+  lastSeen: 'last_seen',
+  missedRuns: 'missed_runs',
+  status: 'status',
+  duplicateOf: 'duplicate_of',
+  score: 'score',
+  excludedBy: 'excluded_by',
+  city: 'city',
+  region: 'region',
+  country: 'country',
+  workMode: 'work_mode',
+  latitude: 'latitude',
+  longitude: 'longitude'
+};
+
+// Each user's own tracking of a job. user_id is '' for state saved before
+// there were user accounts, until the first account takes it over.
+const JOB_STATES_TABLE = `
+  CREATE TABLE IF NOT EXISTS job_states (
+    user_id TEXT NOT NULL DEFAULT '',
+    job_id TEXT NOT NULL,
+    stage TEXT,
+    applied_at TEXT,
+    hidden INTEGER NOT NULL DEFAULT 0,
+    notes TEXT NOT NULL DEFAULT '',
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, job_id)
+  )
+`;
+
+// Tables holding per-user state, by user_id
+const USER_STATE_TABLES = ['job_states', 'saved_searches', 'notifications'];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    company TEXT,
+    location TEXT,
+    link TEXT,
+    source TEXT,
+    keyword TEXT,
+    date TEXT,
+    first_seen TEXT,
+    last_seen TEXT,
+    missed_runs INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'active',
+    duplicate_of TEXT,
+    score REAL,
+    excluded_by TEXT,
+    city TEXT,
+    region TEXT,
+    country TEXT,
+    work_mode TEXT,
+    latitude REAL,
+    longitude REAL,
+    extra TEXT NOT NULL DEFAULT '{}'
+  );
+
+  CREATE INDEX IF NOT EXISTS jobs_source ON jobs (source);
+  CREATE INDEX IF NOT EXISTS jobs_date ON jobs (date);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS jobs_fts USING fts5(
+    title, company, location,
+    content = 'jobs', content_rowid = 'rowid'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS jobs_fts_insert AFTER INSERT ON jobs BEGIN
+    INSERT INTO jobs_fts (rowid, title, company, location)
+    VALUES (new.rowid, new.title, new.company, new.location);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS jobs_fts_delete AFTER DELETE ON jobs BEGIN
+    INSERT INTO jobs_fts (jobs_fts, rowid, title, company, location)
+    VALUES ('delete', old.rowid, old.title, old.company, old.location);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS jobs_fts_update AFTER UPDATE ON jobs BEGIN
+    INSERT INTO jobs_fts (jobs_fts, rowid, title, company, location)
+    VALUES ('delete', old.rowid, old.title, old.company, old.location);
+    INSERT INTO jobs_fts (rowid, title, company, location)
+    VALUES (new.rowid, new.title, new.company, new.location);
+  END;
+
+  CREATE TABLE IF NOT EXISTS runs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    data TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS runs_started_at ON runs (started_at);
+
+  CREATE TABLE IF NOT EXISTS sites (
+    position INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT,
+    version INTEGER NOT NULL DEFAULT 1,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS saved_searches (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL DEFAULT '',
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS saved_search_matches (
+    search_id TEXT NOT NULL,
+    job_id TEXT NOT NULL,
+    matched_at TEXT NOT NULL,
+    read INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (search_id, job_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS notifications (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL DEFAULT '',
+    created_at TEXT NOT NULL,
+    read INTEGER NOT NULL DEFAULT 0,
+    data TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS notifications_created_at ON notifications (created_at);
+
+  ${JOB_STATES_TABLE};
+
+  CREATE INDEX IF NOT EXISTS job_states_stage ON job_states (stage);
+
+  CREATE TABLE IF NOT EXISTS response_cache (
+    url TEXT PRIMARY KEY,
+    status INTEGER,
+    content_type TEXT,
+    etag TEXT,
+    last_modified TEXT,
+    content_hash TEXT NOT NULL,
+    body TEXT NOT NULL,
+    parsed TEXT,
+    fetched_at TEXT NOT NULL,
+    checked_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'user',
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS sessions_user_id ON sessions (user_id);
+`;
+
+// Sort options accepted by jobs.query()
+const JOB_SORTS = {
+  newest: 'date DESC',
+  oldest: 'date ASC',
+  title: 'title COLLATE NOCASE ASC',
+  company: 'company COLLATE NOCASE ASC',
+  score: 'score DESC, date DESC'
+};
+
+// Turn free text into an FTS5 query matching every word as a prefix
+const toFtsQuery = (text) =>
+  text
+    .split(/\s+/)
+    .map(word => word.replace(/"/g, ''))
+    .filter(Boolean)
+    .map(word => `"${word}"*`)
+    .join(' ');
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Great-circle distance between two points, registered as distance_miles() for
+// the "within N miles" filter
+const distanceMiles = (lat1, lon1, lat2, lon2) => {
+  const toRadians = (degrees) => (degrees * Math.PI) / 180;
+  const a = Math.sin(toRadians(lat2 - lat1) / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(toRadians(lon2 - lon1) / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+};
+
+// Add columns introduced after a table was first created
+const ensureColumns = (db, table, columns) => {
+  const existing = db.prepare(`PRAGMA table_info(${table})`).all().map(column => column.name);
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!existing.includes(name)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+    }
+  }
+};
+
+// Bring databases created by older versions up to the current schema
+const migrateSchema = (db) => db.transaction(() => {
+  ensureColumns(db, 'jobs', {
+    duplicate_of: 'TEXT',
+    score: 'REAL',
+    excluded_by: 'TEXT',
+    city: 'TEXT',
+    region: 'TEXT',
+    country: 'TEXT',
+    work_mode: 'TEXT',
+    latitude: 'REAL',
+    longitude: 'REAL'
+  });
+  db.exec('CREATE INDEX IF NOT EXISTS jobs_duplicate_of ON jobs (duplicate_of)');
+  db.exec('CREATE INDEX IF NOT EXISTS jobs_score ON jobs (score)');
+  db.exec('CREATE INDEX IF NOT EXISTS jobs_country_region ON jobs (country, region)');
+  
+  // Sites saved before sites had ids get one each
+  ensureColumns(db, 'sites', { id: 'TEXT', version: 'INTEGER NOT NULL DEFAULT 1' });
+  const assignId = db.prepare('UPDATE sites SET id = ? WHERE position = ?');
+  for (const position of db.prepare('SELECT position FROM sites WHERE id IS NULL').pluck().all()) {
+    assignId.run(randomUUID(), position);
+  }
+  db.exec('CREATE UNIQUE INDEX IF NOT EXISTS sites_id ON sites (id)');
+  
+  // Job states, saved searches and notifications were shared before there
+  // were user accounts. What was saved then is left unowned ('') and the
+  // job_states table is rebuilt to be keyed by user as well as job.
+  if (!db.prepare('PRAGMA table_info(job_states)').all().some(column => column.name === 'user_id')) {
+    db.exec('ALTER TABLE job_states RENAME TO job_states_shared');
+    db.exec(JOB_STATES_TABLE);
+    db.exec(`
+      INSERT INTO job_states (user_id, job_id, stage, applied_at, hidden, notes, updated_at)
+      SELECT '', job_id, stage, applied_at, hidden, notes, updated_at FROM job_states_shared
+    `);
+    db.exec('DROP TABLE job_states_shared');
+    db.exec('CREATE INDEX IF NOT EXISTS job_states_stage ON job_states (stage)');
+  }
+  ensureColumns(db, 'saved_searches', { user_id: "TEXT NOT NULL DEFAULT ''" });
+  ensureColumns(db, 'notifications', { user_id: "TEXT NOT NULL DEFAULT ''" });
+  db.exec('CREATE INDEX IF NOT EXISTS saved_searches_user_id ON saved_searches (user_id)');
+  db.exec('CREATE INDEX IF NOT EXISTS notifications_user_id ON notifications (user_id, created_at)');
+})();
+
+const rowToSite = (row) => ({ ...JSON.parse(row.data), id: row.id, version: row.version });
+
+// Site fields kept in the data column; id and version live in their own columns
+const siteData = (site) => {
+  const data = { ...site };
+  delete data.id;
+  delete data.version;
+  return JSON.stringify(data);
+};
+
+// Saved search fields kept in the data column, like siteData()
+const savedSearchData = (search) => {
+  const data = { ...search };
+  for (const key of ['id', 'userId', 'createdAt', 'unreadCount', 'matchCount', 'lastMatchedAt']) {
+    delete data[key];
+  }
+  return JSON.stringify(data);
+};
+
+const rowToSavedSearch = (row) => ({
+  ...JSON.parse(row.data),
+  id: row.id,
+  userId: row.user_id,
+  createdAt: row.created_at,
+  unreadCount: row.unread_count ?? 0,
+  matchCount: row.match_count ?? 0,
+  lastMatchedAt: row.last_matched_at ?? null
+});
+
+const rowToNotification = (row) => ({
+  ...JSON.parse(row.data),
+  id: row.id,
+  userId: row.user_id,
+  createdAt: row.created_at,
+  read: Boolean(row.read)
+});
+
+const rowToJobState = (row) => ({
+  jobId: row.job_id,
+  stage: row.stage,
+  appliedAt: row.applied_at,
+  hidden: Boolean(row.hidden),
+  notes: row.notes,
+  updatedAt: row.updated_at
+});
+
+// The password hash is only read when checking a login, see users.findByUsername()
+const rowToUser = (row) => ({
+  id: row.id,
+  username: row.username,
+  role: row.role,
+  createdAt: row.created_at
+});
+
+// Cache entries are listed without their body; get() adds it and the parsed results
+const rowToCacheEntry = (row) => {
+  const entry = {
+    url: row.url,
+    status: row.status,
+    contentType: row.content_type,
+    etag: row.etag,
+    lastModified: row.last_modified,
+    contentHash: row.content_hash,
+    size: row.size,
+    fetchedAt: row.fetched_at,
+    checkedAt: row.checked_at
+  };
+  if (row.body !== undefined) entry.body = row.body;
+  if (row.parsed !== undefined) entry.parsed = row.parsed ? JSON.parse(row.parsed) : null;
+  return entry;
+};
+
+const rowToJob = (row) => {
+  const job = {};
+  for (const [field, column] of Object.entries(JOB_COLUMNS)) {
+    job[field] = row[column];
+  }
+  return { ...JSON.parse(row.extra), ...job };
+};
+
+const jobToRow = (job) => {
+  const row = {};
+  const extra = { ...job };
+  for (const [field, column] of Object.entries(JOB_COLUMNS)) {
+    row[column] = job[field] ?? null;
+    delete extra[field];
+  }
+  // User state lives in job_states and is only attached when reading
+  delete extra.userState;
+  row.missed_runs = row.missed_runs ?? 0;
+  row.status = row.status ?? 'active';
+  row.extra = JSON.stringify(extra);
+  return row;
+};
+
+// SQLite implementation of the storage interface described in ./index.js
+export const createSqliteStorage = (filename) => {
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.function('distance_miles', { deterministic: true }, distanceMiles);
+  db.exec(SCHEMA);
+  migrateSchema(db);
+
+  // Databases created before the search index existed need it built once
+  if (db.prepare("SELECT COUNT(*) FROM jobs_fts").pluck().get() === 0) {
+    db.exec("INSERT INTO jobs_fts (jobs_fts) VALUES ('rebuild')");
+  }
+
+  const columns = Object.values(JOB_COLUMNS).concat('extra');
+  const upsertJob = db.prepare(`
+    INSERT INTO jobs (${columns.join(', ')})
+    VALUES (${columns.map(column => `@${column}`).join(', ')})
+    ON CONFLICT (id) DO UPDATE SET
+      ${columns.filter(column => column !== 'id').map(column => `${column} = excluded.${column}`).join(',\n      ')}
+  `);
+
+  // Attach the user's state for each job, if there is one, as job.userState.
+  // Without a user, jobs are returned as they are.
+  const withStates = (list, userId) => {
+    if (list.length === 0 || !userId) return list;
+    const states = new Map(
+      db.prepare(`SELECT * FROM job_states WHERE user_id = ? AND job_id IN (${list.map(() => '?').join(', ')})`)
+        .all(userId, ...list.map(job => job.id))
+        .map(row => [row.job_id, rowToJobState(row)])
+    );
+    return list.map(job => (states.has(job.id) ? { ...job, userState: states.get(job.id) } : job));
+  };
+
+  const jobs = {
+    list: () =>
+      db.prepare('SELECT * FROM jobs ORDER BY date DESC').all().map(rowToJob),
+
+    get: (id, userId) => {
+      const row = db.prepare('SELECT * FROM jobs WHERE id = ?').get(id);
+      return row ? withStates([rowToJob(row)], userId)[0] : null;
+    },
+
+    listBySource: (source) =>
+      db.prepare('SELECT * FROM jobs WHERE source = ?').all(source).map(rowToJob),
+
+    count: () =>
+      db.prepare('SELECT COUNT(*) FROM jobs').pluck().get(),
+
+    // Duplicates are folded into their canonical job unless includeDuplicates is set,
+    // jobs userId hid are left out unless includeHidden is set, and jobs flagged
+    // by an exclude term are left out when hideExcluded is set. location is a
+    // country code, or country and region as "US-TN"; near is { latitude,
+    // longitude, miles } and leaves out jobs without coordinates.
+    query: ({ q, source, keyword, status, from, to, firstSeenFrom, workMode, location, near, sort = 'newest', limit = 50, offset = 0, includeDuplicates = false, includeHidden = false, hideExcluded = false, userId } = {}) => {
+      const where = [];
+      const params = {};
+
+      if (!includeDuplicates) {
+        where.push('duplicate_of IS NULL');
+      }
+      if (!includeHidden && userId) {
+        where.push('id NOT IN (SELECT job_id FROM job_states WHERE user_id = @userId AND hidden = 1)');
+        params.userId = userId;
+      }
+      if (hideExcluded) {
+        where.push('excluded_by IS NULL');
+      }
+
+      const ftsQuery = q ? toFtsQuery(q) : '';
+      if (ftsQuery) {
+        where.push('rowid IN (SELECT rowid FROM jobs_fts WHERE jobs_fts MATCH @q)');
+        params.q = ftsQuery;
+      }
+      if (source && !includeDuplicates) {
+        // A canonical job also matches the sources of its duplicates
+        where.push('(source = @source OR id IN (SELECT duplicate_of FROM jobs WHERE source = @source))');
+        params.source = source;
+      } else if (source) {
+        where.push('source = @source');
+        params.source = source;
+      }
+      if (keyword) {
+        where.push('keyword = @keyword');
+        params.keyword = keyword;
+      }
+      if (status) {
+        where.push('status = @status');
+        params.status = status;
+      }
+      if (from) {
+        where.push('date >= @from');
+        params.from = from;
+      }
+      if (to) {
+        where.push('date <= @to');
+        params.to = to;
+      }
+      if (firstSeenFrom) {
+        where.push('first_seen >= @firstSeenFrom');
+        params.firstSeenFrom = firstSeenFrom;
+      }
+      if (workMode) {
+        where.push('work_mode = @workMode');
+        params.workMode = workMode;
+      }
+      if (location) {
+        const [country, region] = location.split('-');
+        where.push(region ? 'country = @country AND region = @region' : 'country = @country');
+        Object.assign(params, region ? { country, region } : { country });
+      }
+      if (near) {
+        where.push('distance_miles(latitude, longitude, @nearLatitude, @nearLongitude) <= @nearMiles');
+        Object.assign(params, { nearLatitude: near.latitude, nearLongitude: near.longitude, nearMiles: near.miles });
+      }
+
+      const whereClause = where.length ? `WHERE ${where.join(' AND ')}` : '';
+      const orderBy = JOB_SORTS[sort] || JOB_SORTS.newest;
+
+      const total = db.prepare(`SELECT COUNT(*) FROM jobs ${whereClause}`).pluck().get(params);
+      const rows = db
+        .prepare(`SELECT * FROM jobs ${whereClause} ORDER BY ${orderBy}, id LIMIT @limit OFFSET @offset`)
+        .all({ ...params, limit, offset });
+
+      return { jobs: withStates(rows.map(rowToJob), userId), total };
+    },
+
+    facets: () => ({
+      sources: db.prepare('SELECT DISTINCT source FROM jobs WHERE source IS NOT NULL ORDER BY source').pluck().all(),
+      keywords: db.prepare('SELECT DISTINCT keyword FROM jobs WHERE length(keyword) > 0 ORDER BY keyword').pluck().all(),
+      // Location filter values: each country, and each country-region pair
+      locations: db.prepare(`
+        SELECT DISTINCT country FROM jobs WHERE country IS NOT NULL
+        UNION
+        SELECT DISTINCT country || '-' || region FROM jobs WHERE country IS NOT NULL AND region IS NOT NULL
+        ORDER BY 1
+      `).pluck().all()
+    }),
+
+    upsertMany: db.transaction((list) => {
+      for (const job of list) {
+        upsertJob.run(jobToRow(job));
+      }
+    })
+  };
+
+  const getJobStateRow = (userId, jobId) =>
+    db.prepare('SELECT * FROM job_states WHERE user_id = ? AND job_id = ?').get(userId, jobId);
+
+  // Each user's own tracking of a job, kept apart from the scraped fields so
+  // rescrapes never overwrite it
+  const jobStates = {
+    get: (userId, jobId) => {
+      const row = getJobStateRow(userId, jobId);
+      return row ? rowToJobState(row) : null;
+    },
+
+    // Jobs the user gave a pipeline stage, each with its userState, most recently updated first
+    listTracked: (userId) => {
+      const rows = db.prepare(`
+        SELECT jobs.* FROM jobs
+        JOIN job_states ON job_states.job_id = jobs.id
+        WHERE job_states.user_id = ? AND job_states.stage IS NOT NULL
+        ORDER BY job_states.updated_at DESC
+      `).all(userId);
+      return withStates(rows.map(rowToJob), userId);
+    },
+
+    // Merge changes into a job's state; a state with nothing left in it is removed
+    update: db.transaction((userId, jobId, changes) => {
+      const current = jobStates.get(userId, jobId) || { stage: null, appliedAt: null, hidden: false, notes: '' };
+      const next = { ...current, ...changes, updatedAt: new Date().toISOString() };
+
+      if (!next.stage && !next.appliedAt && !next.hidden && !next.notes) {
+        db.prepare('DELETE FROM job_states WHERE user_id = ? AND job_id = ?').run(userId, jobId);
+        return null;
+      }
+
+      db.prepare(`
+        INSERT INTO job_states (user_id, job_id, stage, applied_at, hidden, notes, updated_at)
+        VALUES (@userId, @jobId, @stage, @appliedAt, @hidden, @notes, @updatedAt)
+        ON CONFLICT (user_id, job_id) DO UPDATE SET
+          stage = excluded.stage,
+          applied_at = excluded.applied_at,
+          hidden = excluded.hidden,
+          notes = excluded.notes,
+          updated_at = excluded.updated_at
+      `).run({ ...next, userId, jobId, hidden: next.hidden ? 1 : 0 });
+      return jobStates.get(userId, jobId);
+    })
+  };
+
+  const getSiteRow = (id) => db.prepare('SELECT * FROM sites WHERE id = ?').get(id);
+
+  // update() and remove() take the version the caller last saw; when given and
+  // it no longer matches, nothing is written and the current site is returned
+  // with status 'conflict'
+  const sites = {
+    list: () =>
+      db.prepare('SELECT * FROM sites ORDER BY position').all().map(rowToSite),
+
+    get: (id) => {
+      const row = getSiteRow(id);
+      return row ? rowToSite(row) : null;
+    },
+
+    add: (site) => {
+      const id = site.id || randomUUID();
+      db.prepare('INSERT INTO sites (id, version, data) VALUES (?, 1, ?)').run(id, siteData(site));
+      return sites.get(id);
+    },
+
+    update: db.transaction((id, site, expectedVersion) => {
+      const row = getSiteRow(id);
+      if (!row) return { status: 'not_found', site: null };
+      if (expectedVersion != null && row.version !== expectedVersion) {
+        return { status: 'conflict', site: rowToSite(row) };
+      }
+      db.prepare('UPDATE sites SET data = ?, version = version + 1 WHERE id = ?').run(siteData(site), id);
+      return { status: 'ok', site: sites.get(id) };
+    }),
+
+    remove: db.transaction((id, expectedVersion) => {
+      const row = getSiteRow(id);
+      if (!row) return { status: 'not_found', site: null };
+      if (expectedVersion != null && row.version !== expectedVersion) {
+        return { status: 'conflict', site: rowToSite(row) };
+      }
+      db.prepare('DELETE FROM sites WHERE id = ?').run(id);
+      return { status: 'ok', site: rowToSite(row) };
+    }),
+
+    replaceAll: db.transaction((list) => {
+      db.prepare('DELETE FROM sites').run();
+      for (const site of list) {
+        sites.add(site);
+      }
+    })
+  };
+
+  const runs = {
+    save: (run) =>
+      db.prepare(`
+        INSERT INTO runs (id, status, started_at, finished_at, data)
+        VALUES (@id, @status, @startedAt, @finishedAt, @data)
+        ON CONFLICT (id) DO UPDATE SET
+          status = excluded.status,
+          finished_at = excluded.finished_at,
+          data = excluded.data
+      `).run({ ...run, finishedAt: run.finishedAt ?? null, data: JSON.stringify(run) }),
+
+    get: (id) => {
+      const data = db.prepare('SELECT data FROM runs WHERE id = ?').pluck().get(id);
+      return data ? JSON.parse(data) : null;
+    },
+
+    list: ({ limit = 50, offset = 0 } = {}) =>
+      db.prepare('SELECT data FROM runs ORDER BY started_at DESC LIMIT ? OFFSET ?')
+        .pluck().all(limit, offset).map(data => JSON.parse(data)),
+
+    count: () =>
+      db.prepare('SELECT COUNT(*) FROM runs').pluck().get()
+  };
+
+  // Saved searches are listed with their match counts
+  const savedSearchSelect = `
+    SELECT s.*,
+      COUNT(m.job_id) AS match_count,
+      COALESCE(SUM(m.read = 0), 0) AS unread_count,
+      MAX(m.matched_at) AS last_matched_at
+    FROM saved_searches s
+    LEFT JOIN saved_search_matches m ON m.search_id = s.id
+  `;
+
+  const savedSearches = {
+    // One user's searches, or everyone's when userId is omitted
+    list: (userId) =>
+      db.prepare(`${savedSearchSelect} ${userId ? 'WHERE s.user_id = ?' : ''} GROUP BY s.id ORDER BY s.created_at`)
+        .all(...(userId ? [userId] : [])).map(rowToSavedSearch),
+
+    get: (id) => {
+      const row = db.prepare(`${savedSearchSelect} WHERE s.id = ? GROUP BY s.id`).get(id);
+      return row ? rowToSavedSearch(row) : null;
+    },
+
+    add: (search) => {
+      const id = randomUUID();
+      db.prepare('INSERT INTO saved_searches (id, user_id, created_at, data) VALUES (?, ?, ?, ?)')
+        .run(id, search.userId ?? '', new Date().toISOString(), savedSearchData(search));
+      return savedSearches.get(id);
+    },
+
+    update: (id, search) => {
+      const { changes } = db.prepare('UPDATE saved_searches SET data = ? WHERE id = ?').run(savedSearchData(search), id);
+      return changes ? savedSearches.get(id) : null;
+    },
+
+    remove: db.transaction((id) => {
+      db.prepare('DELETE FROM saved_search_matches WHERE search_id = ?').run(id);
+      return db.prepare('DELETE FROM saved_searches WHERE id = ?').run(id).changes > 0;
+    }),
+
+    // Record jobs matching a search; returns the ids that weren't already recorded
+    addMatches: db.transaction((id, jobIds, matchedAt) => {
+      const insert = db.prepare(`
+        INSERT INTO saved_search_matches (search_id, job_id, matched_at)
+        VALUES (?, ?, ?)
+        ON CONFLICT DO NOTHING
+      `);
+      return jobIds.filter(jobId => insert.run(id, jobId, matchedAt).changes > 0);
+    }),
+
+    // Matched jobs, most recently matched first, each with the match's read flag
+    matches: (id, { limit = 50, offset = 0 } = {}) => {
+      const total = db.prepare('SELECT COUNT(*) FROM saved_search_matches WHERE search_id = ?').pluck().get(id);
+      const rows = db.prepare(`
+        SELECT jobs.*, m.matched_at, m.read
+        FROM saved_search_matches m
+        JOIN jobs ON jobs.id = m.job_id
+        WHERE m.search_id = ?
+        ORDER BY m.matched_at DESC, jobs.date DESC
+        LIMIT ? OFFSET ?
+      `).all(id, limit, offset);
+      return {
+        jobs: rows.map(row => ({ ...rowToJob(row), matchedAt: row.matched_at, read: Boolean(row.read) })),
+        total
+      };
+    },
+
+    markRead: (id) =>
+      db.prepare('UPDATE saved_search_matches SET read = 1 WHERE search_id = ? AND read = 0').run(id).changes
+  };
+
+  const notifications = {
+    add: (notification) => {
+      const id = randomUUID();
+      const data = { ...notification };
+      delete data.userId;
+      db.prepare('INSERT INTO notifications (id, user_id, created_at, data) VALUES (?, ?, ?, ?)')
+        .run(id, notification.userId ?? '', notification.createdAt || new Date().toISOString(), JSON.stringify(data));
+      return rowToNotification(db.prepare('SELECT * FROM notifications WHERE id = ?').get(id));
+    },
+
+    list: (userId, { limit = 50, offset = 0, unreadOnly = false } = {}) =>
+      db.prepare(`
+        SELECT * FROM notifications
+        WHERE user_id = ? ${unreadOnly ? 'AND read = 0' : ''}
+        ORDER BY created_at DESC
+        LIMIT ? OFFSET ?
+      `).all(userId, limit, offset).map(rowToNotification),
+
+    countUnread: (userId) =>
+      db.prepare('SELECT COUNT(*) FROM notifications WHERE user_id = ? AND read = 0').pluck().get(userId),
+
+    // Marks the given notifications read, or all of the user's when ids is omitted
+    markRead: db.transaction((userId, ids) => {
+      if (!ids) {
+        return db.prepare('UPDATE notifications SET read = 1 WHERE user_id = ? AND read = 0').run(userId).changes;
+      }
+      const update = db.prepare('UPDATE notifications SET read = 1 WHERE id = ? AND user_id = ? AND read = 0');
+      return ids.reduce((sum, id) => sum + update.run(id, userId).changes, 0);
+    })
+  };
+
+  const cacheColumns = `
+    url, status, content_type, etag, last_modified, content_hash,
+    fetched_at, checked_at, LENGTH(CAST(body AS BLOB)) AS size
+  `;
+
+  const responseCache = {
+    get: (url) => {
+      const row = db.prepare(`SELECT ${cacheColumns}, body, parsed FROM response_cache WHERE url = ?`).get(url);
+      return row ? rowToCacheEntry(row) : null;
+    },
+
+    // A new body invalidates whatever was parsed from the old one
+    save: (entry) =>
+      db.prepare(`
+        INSERT INTO response_cache (url, status, content_type, etag, last_modified, content_hash, body, parsed, fetched_at, checked_at)
+        VALUES (@url, @status, @contentType, @etag, @lastModified, @contentHash, @body, NULL, @fetchedAt, @checkedAt)
+        ON CONFLICT (url) DO UPDATE SET
+          status = excluded.status,
+          content_type = excluded.content_type,
+          etag = excluded.etag,
+          last_modified = excluded.last_modified,
+          content_hash = excluded.content_hash,
+          body = excluded.body,
+          parsed = NULL,
+          fetched_at = excluded.fetched_at,
+          checked_at = excluded.checked_at
+      `).run({
+        status: null,
+        contentType: null,
+        etag: null,
+        lastModified: null,
+        ...entry
+      }),
+
+    touch: (url, checkedAt) =>
+      db.prepare('UPDATE response_cache SET checked_at = ? WHERE url = ?').run(checkedAt, url),
+
+    saveParsed: (url, parsed) =>
+      db.prepare('UPDATE response_cache SET parsed = ? WHERE url = ?').run(JSON.stringify(parsed), url),
+
+    list: ({ q, limit = 50, offset = 0 } = {}) => {
+      const where = q ? 'WHERE url LIKE ?' : '';
+      const params = q ? [`%${q}%`] : [];
+      const totals = db.prepare(`
+        SELECT COUNT(*) AS total, COALESCE(SUM(LENGTH(CAST(body AS BLOB))), 0) AS total_size
+        FROM response_cache ${where}
+      `).get(...params);
+      const entries = db.prepare(`SELECT ${cacheColumns} FROM response_cache ${where} ORDER BY checked_at DESC LIMIT ? OFFSET ?`)
+        .all(...params, limit, offset)
+        .map(rowToCacheEntry);
+      return { entries, total: totals.total, totalSize: totals.total_size };
+    },
+
+    remove: (url) =>
+      db.prepare('DELETE FROM response_cache WHERE url = ?').run(url).changes > 0,
+
+    clear: () =>
+      db.prepare('DELETE FROM response_cache').run().changes
+  };
+
+  const users = {
+    list: () =>
+      db.prepare('SELECT * FROM users ORDER BY created_at').all().map(rowToUser),
+
+    get: (id) => {
+      const row = db.prepare('SELECT * FROM users WHERE id = ?').get(id);
+      return row ? rowToUser(row) : null;
+    },
+
+    // Usernames are matched case-insensitively; the user comes with passwordHash
+    findByUsername: (username) => {
+      const row = db.prepare('SELECT * FROM users WHERE username = ?').get(username);
+      return row ? { ...rowToUser(row), passwordHash: row.password_hash } : null;
+    },
+
+    count: () =>
+      db.prepare('SELECT COUNT(*) FROM users').pluck().get(),
+
+    // The first account takes over the state saved before there were accounts
+    add: db.transaction(({ username, passwordHash, role = 'user' }) => {
+      const id = randomUUID();
+      const first = users.count() === 0;
+      db.prepare('INSERT INTO users (id, username, password_hash, role, created_at) VALUES (?, ?, ?, ?, ?)')
+        .run(id, username, passwordHash, role, new Date().toISOString());
+      if (first) {
+        for (const table of USER_STATE_TABLES) {
+          db.prepare(`UPDATE ${table} SET user_id = ? WHERE user_id = ''`).run(id);
+        }
+      }
+      return users.get(id);
+    }),
+
+    // Add the first account as an admin, unless another request got there first
+    addFirstAdmin: db.transaction(({ username, passwordHash }) =>
+      users.count() === 0 ? users.add({ username, passwordHash, role: 'admin' }) : null
+    ),
+
+    // Change a user's role and/or passwordHash; null if there's no such user
+    update: (id, { role, passwordHash }) => {
+      const { changes } = db.prepare(`
+        UPDATE users SET role = COALESCE(?, role), password_hash = COALESCE(?, password_hash) WHERE id = ?
+      `).run(role ?? null, passwordHash ?? null, id);
+      return changes ? users.get(id) : null;
+    },
+
+    // Remove a user along with their sessions and everything they saved
+    remove: db.transaction((id) => {
+      db.prepare('DELETE FROM saved_search_matches WHERE search_id IN (SELECT id FROM saved_searches WHERE user_id = ?)').run(id);
+      for (const table of [...USER_STATE_TABLES, 'sessions']) {
+        db.prepare(`DELETE FROM ${table} WHERE user_id = ?`).run(id);
+      }
+      return db.prepare('DELETE FROM users WHERE id = ?').run(id).changes > 0;
+    })
+  };
+
+  // Sessions are looked up by a hash of their token, so the database never
+  // holds a token that could be used as it is
+  const sessions = {
+    add: ({ tokenHash, userId, expiresAt }) =>
+      db.prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+        .run(tokenHash, userId, new Date().toISOString(), expiresAt),
+
+    get: (tokenHash) => {
+      const row = db.prepare('SELECT * FROM sessions WHERE token_hash = ?').get(tokenHash);
+      return row ? { userId: row.user_id, createdAt: row.created_at, expiresAt: row.expires_at } : null;
+    },
+
+    remove: (tokenHash) =>
+      db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash).changes > 0,
+
+    removeForUser: (userId) =>
+      db.prepare('DELETE FROM sessions WHERE user_id = ?').run(userId).changes,
+
+    removeExpired: (now) =>
+      db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now).changes
+  };
+
+  const meta = {
+    get: (key) =>
+      db.prepare('SELECT value FROM meta WHERE key = ?').pluck().get(key) ?? null,
+
+    set: (key, value) =>
+      db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value')
+        .run(key, String(value))
+  };
+
+  return {
+    jobs,
+    jobStates,
+    sites,
+    runs,
+    savedSearches,
+    notifications,
+    responseCache,
+    users,
+    sessions,
+    meta,
+    transaction: (fn) => db.transaction(fn)(),
+    close: () => db.close()
+  };
+};
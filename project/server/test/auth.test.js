@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashPassword, verifyPassword, userErrors, createSession, sessionUser, endSession, requestToken, isLastAdmin } from '../auth.js';
+import { createSqliteStorage } from '../storage/sqlite.js';
+
+test('checks passwords against their stored hashes', async () => {
+  const stored = await hashPassword('correct horse');
+  assert.match(stored, /^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+  assert.equal(await verifyPassword('correct horse', stored), true);
+  assert.equal(await verifyPassword('wrong horse', stored), false);
+  assert.equal(await verifyPassword('correct horse', 'plaintext'), false);
+  assert.equal(await verifyPassword('correct horse', undefined), false);
+  
+  assert.deepEqual(Object.keys(userErrors({ username: 'a b', password: 'short', role: 'root' })), ['username', 'password', 'role']);
+  assert.deepEqual(userErrors({ role: 'admin' }, { partial: true }), {});
+});
+
+test('signs users in with session tokens until the session ends', () => {
+  const storage = createSqliteStorage(':memory:');
+  try {
+    const user = storage.users.add({ username: 'mixer', passwordHash: 'x', role: 'admin' });
+    const token = createSession(storage, user);
+    assert.equal(sessionUser(storage, token).id, user.id);
+    assert.equal(sessionUser(storage, 'made-up'), null);
+    assert.equal(storage.users.findByUsername('MIXER').passwordHash, 'x');
+    assert.equal(isLastAdmin(storage, user), true);
+    
+    endSession(storage, token);
+    assert.equal(sessionUser(storage, token), null);
+    
+    // Setup only makes an admin while there are no accounts
+    assert.equal(storage.users.addFirstAdmin({ username: 'late', passwordHash: 'x' }), null);
+    assert.equal(storage.users.count(), 1);
+  } finally {
+    storage.close();
+  }
+});
+
+test('reads the session token from a bearer header or cookie', () => {
+  const request = (headers) => ({ get: (name) => headers[name] });
+  assert.equal(requestToken(request({ Authorization: 'Bearer abc' })), 'abc');
+  assert.equal(requestToken(request({ Cookie: 'theme=dark; session=a%2Bb' })), 'a+b');
+  assert.equal(requestToken(request({ Cookie: 'session=%E0%A4%A' })), null);
+  assert.equal(requestToken(request({})), null);
+});
+
+test('keeps each user\'s job states and saved searches apart', () => {
+  const storage = createSqliteStorage(':memory:');
+  try {
+    storage.jobs.upsertMany([
+      { id: 'a', title: 'Sound Designer', date: '2024-01-01T00:00:00.000Z' },
+      { id: 'b', title: 'Audio Engineer', date: '2024-01-02T00:00:00.000Z' }
+    ]);
+    // State saved before there were accounts goes to the first one
+    storage.jobStates.update('', 'a', { stage: 'applied' });
+    const first = storage.users.add({ username: 'first', passwordHash: 'x', role: 'admin' });
+    const second = storage.users.add({ username: 'second', passwordHash: 'x' });
+    assert.equal(storage.jobStates.get(first.id, 'a').stage, 'applied');
+    assert.equal(storage.jobStates.get(second.id, 'a'), null);
+    
+    storage.jobStates.update(second.id, 'b', { hidden: true });
+    const ids = (userId) => storage.jobs.query({ userId }).jobs.map(job => job.id).sort();
+    assert.deepEqual(ids(first.id), ['a', 'b']);
+    assert.deepEqual(ids(second.id), ['a']);
+    
+    storage.savedSearches.add({ userId: second.id, name: 'Remote', query: {} });
+    assert.equal(storage.savedSearches.list(first.id).length, 0);
+    assert.equal(storage.savedSearches.list(second.id).length, 1);
+    
+    storage.users.remove(second.id);
+    assert.equal(storage.savedSearches.list().length, 0);
+    assert.equal(storage.jobStates.get(second.id, 'b'), null);
+  } finally {
+    storage.close();
+  }
+});
@@ -0,0 +1,120 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { createBrowserFetcher } from '../fetchers/browser.js';
+import { createSiteFetcher } from '../fetchers/index.js';
+import { testSite } from '../scraper.js';
+
+// A job board that renders its listings client-side: the served page has an
+// empty container, filled in by script after load and again on each scroll
+// to the bottom. Served from localhost so the tests stay offline.
+const BOARD_HTML = `<!doctype html>
+<html><body style="min-height: 3000px">
+<div id="jobs"></div>
+<script>
+  let shown = 0;
+  const addJobs = (count) => {
+    for (let i = 0; i < count; i++, shown++) {
+      document.getElementById('jobs').insertAdjacentHTML('beforeend',
+        '<div class="job-card"><a class="job-title" href="/jobs/' + shown + '">Audio Engineer ' + shown + '</a></div>');
+    }
+    document.body.style.minHeight = (3000 + shown * 1000) + 'px';
+  };
+  setTimeout(() => addJobs(2), 100);
+  window.addEventListener('scroll', () => {
+    if (window.innerHeight + window.scrollY >= document.body.scrollHeight - 10) addJobs(2);
+  });
+</script>
+</body></html>`;
+
+let server;
+let baseUrl;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(BOARD_HTML);
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => server.close());
+
+const boardSite = (render) => ({
+  name: 'Client-side board',
+  url: `${baseUrl}/search?q=`,
+  searchTerms: ['audio'],
+  selectors: { jobContainer: '.job-card', title: '.job-title', link: '.job-title' },
+  politeness: { minDelayMs: 0 },
+  render
+});
+
+// Stands in for Chrome without running scripts: the served page comes from
+// the local server, and two listings "render" on load and on every scroll
+const fakeBrowser = (calls) => ({
+  newPage: async () => {
+    let html = '';
+    let scrolls = 0;
+    return {
+      setUserAgent: async () => {},
+      goto: async (url) => {
+        const response = await fetch(url);
+        html = await response.text();
+        return { status: () => response.status, headers: () => ({}) };
+      },
+      waitForSelector: async (selector) => calls.push(`wait ${selector}`),
+      evaluate: async () => {
+        scrolls++;
+        calls.push('scroll');
+      },
+      content: async () => {
+        const cards = Array.from({ length: 2 + 2 * scrolls }, (_, i) =>
+          `<div class="job-card"><a class="job-title" href="/jobs/${i}">Audio Engineer ${i}</a></div>`);
+        return html.replace('<div id="jobs"></div>', `<div id="jobs">${cards.join('')}</div>`);
+      },
+      close: async () => calls.push('close')
+    };
+  },
+  close: async () => {}
+});
+
+test('static sites see the page as served', async () => {
+  const result = await testSite(boardSite(undefined), { fetchPage: createSiteFetcher() });
+  assert.equal(result.selectors.jobContainer.matches, 0);
+});
+
+test('browser sites wait for the selector and scroll before the page is read', async () => {
+  const calls = [];
+  const browser = createBrowserFetcher({ launch: async () => fakeBrowser(calls) });
+  try {
+    const site = boardSite({ mode: 'browser', waitFor: '.job-card', scrollCount: 2, scrollDelayMs: 0 });
+    const result = await testSite(site, { fetchPage: createSiteFetcher({ browser: browser.fetchPage }), limit: 10 });
+    
+    assert.deepEqual(calls, ['wait .job-card', 'scroll', 'scroll', 'close']);
+    assert.equal(result.selectors.jobContainer.matches, 6);
+    assert.equal(result.samples[0].link, `${baseUrl}/jobs/0`);
+  } finally {
+    await browser.close();
+  }
+});
+
+test('browser sites render client-side listings in headless Chrome', async (t) => {
+  let chrome;
+  try {
+    const { default: puppeteer } = await import('puppeteer');
+    chrome = await puppeteer.launch({ headless: true, args: ['--no-sandbox'] });
+  } catch (error) {
+    return t.skip(`Chrome could not be started: ${error.message.split('\n')[0]}`);
+  }
+  
+  const browser = createBrowserFetcher({ launch: async () => chrome });
+  try {
+    const site = boardSite({ mode: 'browser', waitFor: '.job-card', scrollCount: 1, scrollDelayMs: 200 });
+    const result = await testSite(site, { fetchPage: createSiteFetcher({ browser: browser.fetchPage }), limit: 10 });
+    
+    assert.equal(result.selectors.jobContainer.matches, 4);
+  } finally {
+    await browser.close();
+  }
+});
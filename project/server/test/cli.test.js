@@ -0,0 +1,81 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { loadFixtures } from '../fixtures.js';
+
+// Runs the CLI as cron would, against a scratch database and a local server
+// replaying the sample HTML board fixture
+
+const CLI = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'cli.js');
+
+const { fixture } = loadFixtures().find(({ file }) => file === 'sample-board-html.json');
+
+let server;
+let baseUrl;
+let dir;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const response = fixture.responses.find(({ url }) => new URL(url).pathname + new URL(url).search === req.url);
+    res.writeHead(response?.status ?? 404, { 'Content-Type': response?.contentType ?? 'text/plain' });
+    res.end(response?.body ?? 'Not found');
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'job-scraper-cli-'));
+});
+
+after(() => {
+  server.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Run the CLI and resolve with its exit code and output, whatever the code
+const cli = (...args) => new Promise(resolve => {
+  const env = { ...process.env, JOBS_DB: path.join(dir, 'jobs.db'), REQUEST_DELAY_MS: '0' };
+  execFile('node', [CLI, ...args], { env, timeout: 30000 }, (error, stdout, stderr) => {
+    resolve({ code: error ? error.code : 0, stdout, stderr });
+  });
+});
+
+const writeSite = (name, site) => {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, JSON.stringify(site));
+  return file;
+};
+
+test('adds a site, scrapes it and lists what it found', async () => {
+  const origin = new URL(fixture.site.url).origin;
+  const site = { ...fixture.site, url: fixture.site.url.replace(origin, baseUrl) };
+  assert.equal((await cli('sites', 'add', writeSite('board.json', site))).code, 0);
+  
+  const scrape = await cli('scrape', site.name, '--json');
+  assert.equal(scrape.code, 0, scrape.stderr);
+  assert.equal(JSON.parse(scrape.stdout).sites[0].jobsFound, fixture.jobs.length);
+  
+  const jobs = JSON.parse((await cli('jobs', '--source', site.name, '--sort', 'title', '--json')).stdout);
+  assert.deepEqual(jobs.jobs.map(job => job.title), fixture.jobs.map(job => job.title).sort());
+});
+
+test('fails when a site cannot be scraped', async () => {
+  const site = { ...fixture.site, name: 'Unreachable Board', url: 'http://127.0.0.1:9/search?q=' };
+  assert.equal((await cli('sites', 'add', writeSite('unreachable.json', site))).code, 0);
+  
+  const scrape = await cli('scrape', 'unreachable board');
+  assert.equal(scrape.code, 1);
+  assert.match(scrape.stdout, /Unreachable Board\s+failed/);
+});
+
+test('rejects invalid sites and unknown commands', async () => {
+  const invalid = await cli('sites', 'validate', writeSite('invalid.json', { name: 'Broken', url: 'nope' }));
+  assert.equal(invalid.code, 1);
+  assert.match(invalid.stdout, /url: /);
+  
+  assert.equal((await cli('frobnicate')).code, 2);
+  assert.equal((await cli('scrape', 'No Such Board')).code, 2);
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { groupDuplicates } from '../dedupe.js';
+
+let nextId = 0;
+const job = (title, company, location = '') => ({
+  id: `job-${nextId++}`,
+  title,
+  company,
+  location,
+  firstSeen: `2024-01-01T00:00:${String(nextId).padStart(2, '0')}.000Z`
+});
+
+// Titles of each group with more than one member
+const merged = (jobs) =>
+  groupDuplicates(jobs)
+    .filter(group => group.length > 1)
+    .map(group => group.map(member => member.title).sort());
+
+test('groups the same posting listed with small variations', () => {
+  const jobs = [
+    job('Sr. Sound Designer', 'Riot Games, Inc.', 'Los Angeles, CA'),
+    job('Senior Sound Designer', 'Riot Games', 'Remote in Los Angeles, CA 90028'),
+    job('Audio Engineer', 'Riot Games', 'Los Angeles')
+  ];
+  assert.deepEqual(merged(jobs), [['Senior Sound Designer', 'Sr. Sound Designer']]);
+  assert.equal(groupDuplicates(jobs)[0][0].id, jobs[0].id);
+});
+
+test('keeps postings at different levels apart', () => {
+  assert.deepEqual(merged([
+    job('Senior Sound Designer', 'Acme'),
+    job('Junior Sound Designer', 'Acme'),
+    job('Sound Designer I', 'Acme'),
+    job('Sound Designer II', 'Acme'),
+    job('Audio Engineer', 'Acme'),
+    job('Audio Engineer II', 'Acme'),
+    job('Audio Engineer 3', 'Acme')
+  ]), []);
+});
+
+test('keeps postings in different places apart', () => {
+  assert.deepEqual(merged([
+    job('Audio Engineer', 'Acme', 'Nashville, TN'),
+    job('Audio Engineer', 'Acme', 'Austin, TX')
+  ]), []);
+  
+  // A listing without a location joins one group, not both
+  const groups = merged([
+    job('Audio Engineer', 'Acme', 'Nashville, TN'),
+    job('Audio Engineer', 'Acme'),
+    job('Audio Engineer', 'Acme', 'Austin, TX')
+  ]);
+  assert.equal(groups.length, 1);
+  assert.equal(groups[0].length, 2);
+});
+
+test('needs a company to group listings', () => {
+  assert.deepEqual(merged([job('Audio Engineer', ''), job('Audio Engineer', '')]), []);
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Writable } from 'stream';
+import { writeJobExport } from '../exporters.js';
+import { createSqliteStorage } from '../storage/sqlite.js';
+
+// A writable that keeps what it's given and can only buffer a few bytes, so
+// the export has to wait for it to drain
+const collector = () => {
+  const chunks = [];
+  const out = new Writable({
+    highWaterMark: 16,
+    write(chunk, encoding, callback) {
+      chunks.push(chunk.toString());
+      setImmediate(callback);
+    }
+  });
+  out.text = () => chunks.join('');
+  return out;
+};
+
+const exportJobs = async (jobs, format) => {
+  const storage = createSqliteStorage(':memory:');
+  try {
+    storage.jobs.upsertMany(jobs);
+    const out = collector();
+    const finished = new Promise(resolve => out.on('finish', resolve));
+    const count = await writeJobExport(storage, {}, format, out);
+    await finished;
+    return { count, text: out.text() };
+  } finally {
+    storage.close();
+  }
+};
+
+test('escapes spreadsheet formulas in CSV exports', async () => {
+  const { count, text } = await exportJobs([
+    { id: 'a', title: '=HYPERLINK("http://evil.example","Click")', company: '+1 Audio', location: '-Remote', link: '@SUM(A1)', date: '2024-01-01T00:00:00.000Z' },
+    { id: 'b', title: 'Sound Designer, Games', company: 'Acme', salary: '\t100k', date: '2024-01-02T00:00:00.000Z' }
+  ], 'csv');
+  
+  assert.equal(count, 2);
+  const [header, ...rows] = text.trimEnd().split('\r\n');
+  assert.ok(header.startsWith('id,title,company,location,workMode,link,'));
+  const byId = Object.fromEntries(rows.map(row => [row.slice(0, 1), row]));
+  assert.ok(byId.a.startsWith(`a,"'=HYPERLINK(""http://evil.example"",""Click"")",'+1 Audio,'-Remote,,'@SUM(A1),`));
+  assert.ok(byId.b.startsWith('b,"Sound Designer, Games",Acme,'));
+  assert.ok(byId.b.includes(`'\t100k`));
+});
+
+test('writes every job as JSON across batches, waiting for the output to drain', async () => {
+  const jobs = Array.from({ length: 1200 }, (_, index) => ({
+    id: `job-${index}`,
+    title: `Audio Engineer ${index}`,
+    date: new Date(Date.UTC(2024, 0, 1, 0, 0, index)).toISOString()
+  }));
+  const { count, text } = await exportJobs(jobs, 'json');
+  
+  assert.equal(count, 1200);
+  const exported = JSON.parse(text);
+  assert.equal(new Set(exported.map(job => job.id)).size, 1200);
+  
+  assert.deepEqual(JSON.parse((await exportJobs([], 'json')).text), []);
+  assert.equal((await exportJobs([], 'ndjson')).text, '');
+});
+
+test('stops exporting when the output closes early', async () => {
+  const storage = createSqliteStorage(':memory:');
+  try {
+    storage.jobs.upsertMany(Array.from({ length: 100 }, (_, index) => ({ id: `job-${index}`, title: 'Audio Engineer' })));
+    const out = collector();
+    setImmediate(() => out.destroy());
+    assert.ok(await writeJobExport(storage, {}, 'ndjson', out) < 100);
+  } finally {
+    storage.close();
+  }
+});
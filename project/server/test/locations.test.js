@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLocation, findPlace, nearFilter, DEFAULT_RADIUS_MILES } from '../locations.js';
+import { createSqliteStorage } from '../storage/sqlite.js';
+
+const place = (location) => {
+  const { city, region, country, workMode } = parseLocation(location);
+  return { city, region, country, workMode };
+};
+
+test('parses city, region and work mode out of board location text', () => {
+  assert.deepEqual(place('Remote in Los Angeles, CA 90028'), { city: 'Los Angeles', region: 'CA', country: 'US', workMode: 'remote' });
+  assert.deepEqual(place('Hybrid work in Nashville'), { city: 'Nashville', region: 'TN', country: 'US', workMode: 'hybrid' });
+  assert.deepEqual(place('Toronto, Ontario, Canada'), { city: 'Toronto', region: 'ON', country: 'CA', workMode: 'onsite' });
+  assert.deepEqual(place('Greater London Area'), { city: 'London', region: 'ENG', country: 'GB', workMode: 'onsite' });
+});
+
+test('uses the state or country given to tell places apart', () => {
+  assert.deepEqual(place('Portland, Maine'), { city: 'Portland', region: 'ME', country: 'US', workMode: 'onsite' });
+  assert.deepEqual(place('Cambridge, UK'), { city: 'Cambridge', region: 'ENG', country: 'GB', workMode: 'onsite' });
+  assert.deepEqual(place('New York'), { city: 'New York', region: 'NY', country: 'US', workMode: 'onsite' });
+  assert.deepEqual(place('Washington'), { city: null, region: 'WA', country: 'US', workMode: null });
+});
+
+test('keeps what it can of places that are not listed', () => {
+  assert.deepEqual(place('Remote - US'), { city: null, region: null, country: 'US', workMode: 'remote' });
+  assert.deepEqual(place('Smallville, KS'), { city: 'Smallville', region: 'KS', country: 'US', workMode: 'onsite' });
+  assert.deepEqual(place('Remote'), { city: null, region: null, country: null, workMode: 'remote' });
+  assert.equal(parseLocation('London, ON').latitude, null);
+  assert.deepEqual(place(''), { city: null, region: null, country: null, workMode: null });
+});
+
+test('finds places by label or by name', () => {
+  assert.equal(findPlace('Nashville, TN').name, 'Nashville, TN');
+  assert.ok(findPlace('nashville'));
+  assert.equal(findPlace('Nowhere In Particular'), null);
+  assert.equal(nearFilter('Nashville, TN', 'abc').miles, DEFAULT_RADIUS_MILES);
+});
+
+test('filters stored jobs by work mode, location and distance', () => {
+  const storage = createSqliteStorage(':memory:');
+  try {
+    const jobs = [
+      { id: 'burbank', title: 'Re-recording Mixer', location: 'Burbank, CA' },
+      { id: 'la-remote', title: 'Sound Designer', location: 'Remote in Los Angeles, CA 90028' },
+      { id: 'nashville', title: 'Audio Engineer', location: 'Hybrid work in Nashville' },
+      { id: 'anywhere', title: 'Podcast Editor', location: 'Remote' }
+    ].map(job => ({ ...job, ...parseLocation(job.location), date: '2024-01-01T00:00:00.000Z' }));
+    storage.jobs.upsertMany(jobs);
+    const ids = (filters) => storage.jobs.query(filters).jobs.map(job => job.id).sort();
+    
+    assert.deepEqual(ids({ workMode: 'remote' }), ['anywhere', 'la-remote']);
+    assert.deepEqual(ids({ location: 'US-TN' }), ['nashville']);
+    assert.deepEqual(ids({ near: nearFilter('Santa Monica, CA', 25) }), ['burbank', 'la-remote']);
+    assert.deepEqual(ids({ near: nearFilter('Santa Monica, CA', 25), workMode: 'onsite' }), ['burbank']);
+    assert.deepEqual(storage.jobs.facets().locations, ['US', 'US-CA', 'US-TN']);
+  } finally {
+    storage.close();
+  }
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { combineRules, scoreJob, validateRelevance, DEFAULT_WEIGHTS } from '../../shared/relevance.js';
+import { rulesForSite, rescoreJobs, saveRelevanceRules } from '../relevance.js';
+import { createSqliteStorage } from '../storage/sqlite.js';
+
+test('adds a site\'s terms to the global rules and lets it override the rest', () => {
+  const rules = combineRules(
+    { include: [{ term: 'audio', weight: 2 }], exclude: [{ term: 'intern' }], weights: { title: 5 }, excludeAction: 'drop' },
+    { include: [{ term: 'foley' }], weights: { description: 0 }, excludeAction: 'flag' }
+  );
+  assert.deepEqual(rules.include, [
+    { term: 'audio', weight: 2, scope: 'global' },
+    { term: 'foley', scope: 'site' }
+  ]);
+  assert.deepEqual(rules.exclude, [{ term: 'intern', scope: 'global' }]);
+  assert.deepEqual(rules.weights, { title: 5, company: 1, description: 0 });
+  assert.equal(rules.excludeAction, 'flag');
+  
+  assert.deepEqual(combineRules(), { include: [], exclude: [], weights: DEFAULT_WEIGHTS, excludeAction: 'flag' });
+  assert.deepEqual(rulesForSite({ include: [{ term: 'audio' }] }, null).include, [{ term: 'audio', scope: 'global' }]);
+});
+
+test('scores whole-word matches by rule and field weight', () => {
+  const rules = combineRules({ include: [{ term: 'sound design', weight: 2 }, { term: 'audio-visual' }, { term: 'mix' }] });
+  const { score, reasons, excludedBy } = scoreJob({
+    title: 'Senior Sound Design Lead',
+    company: 'Audio/Visual Works',
+    description: 'Remixing and sound design for trailers.'
+  }, rules);
+  
+  // "mix" doesn't match inside "Remixing"
+  assert.deepEqual(reasons, [
+    { term: 'sound design', field: 'title', points: 6, scope: 'global' },
+    { term: 'sound design', field: 'description', points: 2, scope: 'global' },
+    { term: 'audio-visual', field: 'company', points: 1, scope: 'global' }
+  ]);
+  assert.equal(score, 9);
+  assert.equal(excludedBy, null);
+  
+  assert.equal(scoreJob({ title: 'Audio Engineer' }, combineRules({ include: [{ term: '  ' }] })).score, 0);
+});
+
+test('excludes on the title and company but not the description', () => {
+  const rules = combineRules({}, { exclude: [{ term: 'Internship' }, { term: 'unpaid' }] });
+  assert.equal(scoreJob({ title: 'Audio Internship', company: 'Acme' }, rules).excludedBy, 'Internship');
+  assert.equal(scoreJob({ title: 'Audio Engineer', company: 'Unpaid Studios' }, rules).excludedBy, 'unpaid');
+  assert.equal(scoreJob({ title: 'Audio Engineer', description: 'Not an unpaid internship' }, rules).excludedBy, null);
+});
+
+test('reports each invalid part of the rules by its path', () => {
+  assert.deepEqual(validateRelevance(undefined), {});
+  assert.deepEqual(validateRelevance({ include: [{ term: 'audio', weight: 2 }], weights: { title: 0 }, excludeAction: 'drop' }), {});
+  assert.deepEqual(validateRelevance([]), { rules: 'Relevance rules must be an object' });
+  assert.deepEqual(validateRelevance({
+    include: [{ term: 'audio', weight: 'high' }],
+    exclude: [{ term: ' ' }],
+    weights: { title: -1, company: 'x' },
+    excludeAction: 'hide'
+  }, 'relevance'), {
+    'relevance.include': 'Include weights must be numbers',
+    'relevance.exclude': 'Exclude rules each need a term',
+    'relevance.weights.title': 'Weight must be a number, 0 or more',
+    'relevance.weights.company': 'Weight must be a number, 0 or more',
+    'relevance.excludeAction': 'Must be one of flag, drop'
+  });
+  assert.deepEqual(validateRelevance({ include: [{ weight: 1 }] }), { include: 'Include rules each need a term' });
+});
+
+test('rescores stored jobs with their site\'s rules when the rules change', () => {
+  const storage = createSqliteStorage(':memory:');
+  try {
+    storage.sites.add({ name: 'Board', url: 'https://example.com/jobs?q=', searchTerms: ['audio'], relevance: { include: [{ term: 'foley' }] } });
+    storage.jobs.upsertMany([
+      { id: 'a', title: 'Foley Artist', source: 'Board', date: '2024-01-01T00:00:00.000Z' },
+      { id: 'b', title: 'Foley Intern', source: 'Elsewhere', date: '2024-01-02T00:00:00.000Z' }
+    ]);
+    saveRelevanceRules(storage, { include: [{ term: 'artist', weight: 2 }], exclude: [{ term: 'intern' }] });
+    
+    assert.equal(rescoreJobs(storage), 2);
+    const byId = Object.fromEntries(storage.jobs.list().map(job => [job.id, job]));
+    assert.equal(byId.a.score, 9);
+    assert.equal(byId.a.excludedBy, null);
+    assert.equal(byId.b.score, 0);
+    assert.equal(byId.b.excludedBy, 'intern');
+    
+    assert.equal(rescoreJobs(storage), 0);
+  } finally {
+    storage.close();
+  }
+});
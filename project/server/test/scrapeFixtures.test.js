@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadFixtures, replayFixture, replayFetcher, fixtureFileName } from '../fixtures.js';
+import { DEFAULT_PRESET, getPreset } from '../siteBundles.js';
+import { siteErrors } from '../siteValidation.js';
+
+// Replays every recorded fixture in server/fixtures through the scraper and
+// checks it still extracts the jobs it did when recorded. Every site in the
+// default preset needs a fixture, replayed with the preset's current config.
+// Record or refresh a fixture with `npm run record-fixture -- "<site name>"`.
+
+const fixtures = loadFixtures();
+
+// Every job needs these to be listed and opened; location only where the site
+// says where to find one
+const assertJobFields = (site, jobs) => {
+  assert.ok(jobs.length > 0, 'no jobs extracted');
+  const hasLocation = Boolean(site.selectors?.location || site.json?.fields?.location);
+  for (const job of jobs) {
+    assert.ok(job.title?.trim(), `${job.id} has no title`);
+    assert.ok(job.company?.trim(), `${job.id} has no company`);
+    assert.match(job.link ?? '', /^https?:\/\/\S+$/, `${job.id} has no link`);
+    if (hasLocation) assert.ok(job.location?.trim(), `${job.id} has no location`);
+  }
+};
+
+test('fixtures are recorded', () => {
+  assert.ok(fixtures.length > 0, 'no fixtures found in server/fixtures');
+});
+
+for (const { file, fixture } of fixtures) {
+  test(`${fixture.site.name} (${file}) extracts the recorded jobs`, async () => {
+    assert.deepEqual(siteErrors(fixture.site), {});
+    const jobs = await replayFixture(fixture);
+    assertJobFields(fixture.site, jobs);
+    assert.deepEqual(jobs, fixture.jobs);
+  });
+}
+
+for (const site of getPreset(DEFAULT_PRESET).sites) {
+  test(`${site.name} from the default preset extracts its recorded jobs`, async () => {
+    const recorded = fixtures.find(({ file }) => file === fixtureFileName(site));
+    assert.ok(recorded, `no fixture for ${site.name}; record one with npm run record-fixture -- "${site.name}"`);
+    
+    const jobs = await replayFixture(recorded.fixture, site);
+    assertJobFields(site, jobs);
+    assert.deepEqual(jobs, recorded.fixture.jobs);
+  });
+}
+
+test('replay never goes to the network', async () => {
+  const fetchPage = replayFetcher([{ url: 'https://example.com/a', status: 200, contentType: 'text/html', body: 'ok' }]);
+  
+  assert.equal((await fetchPage('https://example.com/a')).data, 'ok');
+  await assert.rejects(fetchPage('https://example.com/b'), /No recorded response/);
+});
+
+test('a broken selector changes what a fixture extracts', async (t) => {
+  const html = fixtures.find(({ fixture }) => (fixture.site.type || 'html') === 'html');
+  if (!html) return t.skip('no HTML fixture recorded');
+  
+  const { fixture } = html;
+  const site = { ...fixture.site, selectors: { ...fixture.site.selectors, title: '.no-such-title' } };
+  assert.notDeepEqual(await replayFixture(fixture, site), fixture.jobs);
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createBundle, diffBundle, importBundle, validateBundle } from '../siteBundles.js';
+import { createSqliteStorage } from '../storage/sqlite.js';
+
+const site = (name, searchTerms = ['audio']) => ({
+  name,
+  url: `https://${name.toLowerCase()}.example.com/jobs?q=`,
+  searchTerms,
+  selectors: { jobContainer: '.job', title: '.title', company: '.company', location: '.location', link: 'a' }
+});
+
+// Storage holding Indeed and LinkedIn, for importing a bundle into
+const withSites = (run) => {
+  const storage = createSqliteStorage(':memory:');
+  try {
+    storage.sites.add(site('Indeed'));
+    storage.sites.add(site('LinkedIn'));
+    return run(storage);
+  } finally {
+    storage.close();
+  }
+};
+
+const siteNames = (storage) => storage.sites.list().map(s => s.name).sort();
+
+// A bundle with a clashing Indeed, an identical LinkedIn and a new site
+const bundle = createBundle([site('indeed', ['music']), site('LinkedIn'), site('Glassdoor')]);
+
+test('compares a bundle with the sites already set up', () => withSites(storage => {
+  assert.deepEqual(validateBundle(bundle), []);
+  assert.deepEqual(diffBundle(bundle, storage.sites.list()).map(entry => [entry.status, entry.changes]), [
+    ['conflict', ['name', 'searchTerms']],
+    ['unchanged', []],
+    ['new', []]
+  ]);
+}));
+
+test('adds new sites and skips the rest by default', () => withSites(storage => {
+  assert.deepEqual(importBundle(storage, bundle), { added: 1, replaced: 0, skipped: 2 });
+  assert.deepEqual(siteNames(storage), ['Glassdoor', 'Indeed', 'LinkedIn']);
+  assert.deepEqual(storage.sites.list().find(s => s.name === 'Indeed').searchTerms, ['audio']);
+}));
+
+test('replaces an existing site in place', () => withSites(storage => {
+  const before = storage.sites.list().find(s => s.name === 'Indeed');
+  assert.deepEqual(importBundle(storage, bundle, [{ action: 'replace' }, { action: 'skip' }, { action: 'skip' }]), { added: 0, replaced: 1, skipped: 2 });
+  
+  const after = storage.sites.get(before.id);
+  assert.equal(after.name, 'indeed');
+  assert.deepEqual(after.searchTerms, ['music']);
+  assert.deepEqual(siteNames(storage), ['LinkedIn', 'indeed']);
+}));
+
+test('adds a clashing site under a new name, and only under a free one', () => withSites(storage => {
+  assert.deepEqual(importBundle(storage, bundle, [{ action: 'add', name: ' Indeed (music) ' }]), { added: 2, replaced: 0, skipped: 1 });
+  assert.deepEqual(siteNames(storage), ['Glassdoor', 'Indeed', 'Indeed (music)', 'LinkedIn']);
+  
+  // Nothing is imported when a choice doesn't work out
+  const result = importBundle(storage, bundle, [{ action: 'add' }, { action: 'replace', name: 'x' }, { action: 'keep' }]);
+  assert.deepEqual(result.errors, [
+    'Site 1 (indeed): a site named "indeed" already exists; rename it or replace the existing site',
+    'Site 3 (Glassdoor): unknown action "keep"'
+  ]);
+  assert.equal(storage.sites.list().length, 4);
+}));
+
+test('replacing needs a site of the same name', () => withSites(storage => {
+  assert.deepEqual(importBundle(storage, bundle, [{}, {}, { action: 'replace' }]).errors, [
+    'Site 3 (Glassdoor): there is no existing site to replace'
+  ]);
+}));
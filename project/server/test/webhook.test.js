@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { webhookUrlError, send } from '../notifications/webhook.js';
+
+test('only accepts webhooks on public addresses', () => {
+  assert.equal(webhookUrlError('https://hooks.example.com/notify'), null);
+  assert.equal(webhookUrlError('ftp://example.com/'), 'Webhook URL must be an http(s) URL');
+  for (const url of [
+    'http://localhost:3001/api/sites',
+    'http://127.0.0.1/',
+    'http://10.0.0.5/',
+    'http://192.168.1.1/',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/',
+    'http://[::ffff:127.0.0.1]/'
+  ]) {
+    assert.equal(webhookUrlError(url), 'Webhook URL must point to a public address', url);
+  }
+});
+
+test('never posts to a loopback webhook', async () => {
+  let requests = 0;
+  const server = http.createServer((req, res) => {
+    requests++;
+    res.end();
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    const webhookUrl = `http://127.0.0.1:${server.address().port}/hook`;
+    await assert.rejects(send({ title: 'Test' }, { notify: { webhookUrl } }), /public address/);
+    assert.equal(requests, 0);
+  } finally {
+    server.close();
+  }
+});
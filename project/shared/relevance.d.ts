@@ -0,0 +1,36 @@
+// Types for relevance.js, which is plain JavaScript so the server can run it as is
+
+export type RelevanceField = 'title' | 'company' | 'description';
+export type ExcludeAction = 'flag' | 'drop';
+
+export interface IncludeRule {
+  term: string;
+  // Multiplies the field weights; 1 when left out
+  weight?: number;
+}
+
+export interface ExcludeRule {
+  term: string;
+}
+
+export interface RelevanceRules {
+  include?: IncludeRule[];
+  exclude?: ExcludeRule[];
+  weights?: Partial<Record<RelevanceField, number>>;
+  excludeAction?: ExcludeAction;
+}
+
+export interface ScoreReason {
+  term: string;
+  field: RelevanceField;
+  points: number;
+  // Whether the term came from the global rules or the site's own
+  scope: 'global' | 'site';
+}
+
+export declare const RELEVANCE_FIELDS: RelevanceField[];
+export declare const EXCLUDE_FIELDS: RelevanceField[];
+export declare const EXCLUDE_ACTIONS: ExcludeAction[];
+export declare const DEFAULT_WEIGHTS: Record<RelevanceField, number>;
+
+export declare const validateRelevance: (rules: unknown, prefix?: string) => Record<string, string>;
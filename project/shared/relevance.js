@@ -0,0 +1,106 @@
+// Keyword relevance rules, shared by the scraper, which scores jobs with them,
+// and the rule editors, which validate them. The global rules and a site's own
+// site.relevance have the same shape, every part optional:
+//   { include: [{ term, weight }], exclude: [{ term }],
+//     weights: { title, company, description }, excludeAction: 'flag' | 'drop' }
+// Each include term found in a field adds its weight times the field's weight
+// to a job's score. Exclude terms are looked for in the title and company only,
+// since descriptions mention all sorts of things in passing.
+
+export const RELEVANCE_FIELDS = ['title', 'company', 'description'];
+export const EXCLUDE_FIELDS = ['title', 'company'];
+export const EXCLUDE_ACTIONS = ['flag', 'drop'];
+
+export const DEFAULT_WEIGHTS = { title: 3, company: 1, description: 1 };
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isBlank = (value) => typeof value !== 'string' || !value.trim();
+
+// Lowercase words between single spaces, so terms match whole words only and
+// "audio-visual" matches "Audio/Visual" as well
+const normalize = (text) =>
+  ` ${String(text ?? '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+
+// Field errors keyed by dotted path under `prefix` (e.g. "relevance.include");
+// an empty object means the rules are usable
+export const validateRelevance = (rules, prefix = '') => {
+  const key = (path) => (prefix ? `${prefix}.${path}` : path);
+  if (rules == null) return {};
+  if (!isPlainObject(rules)) return { [prefix || 'rules']: 'Relevance rules must be an object' };
+  
+  const errors = {};
+  if (rules.include != null) {
+    if (!Array.isArray(rules.include) || rules.include.some(rule => !isPlainObject(rule) || isBlank(rule.term))) {
+      errors[key('include')] = 'Include rules each need a term';
+    } else if (rules.include.some(rule => rule.weight != null && !Number.isFinite(rule.weight))) {
+      errors[key('include')] = 'Include weights must be numbers';
+    }
+  }
+  if (rules.exclude != null) {
+    if (!Array.isArray(rules.exclude) || rules.exclude.some(rule => !isPlainObject(rule) || isBlank(rule.term))) {
+      errors[key('exclude')] = 'Exclude rules each need a term';
+    }
+  }
+  if (rules.weights != null) {
+    if (!isPlainObject(rules.weights)) {
+      errors[key('weights')] = 'Weights must be an object';
+    } else {
+      for (const field of RELEVANCE_FIELDS) {
+        const weight = rules.weights[field];
+        if (weight != null && !(Number.isFinite(weight) && weight >= 0)) {
+          errors[key(`weights.${field}`)] = 'Weight must be a number, 0 or more';
+        }
+      }
+    }
+  }
+  if (rules.excludeAction != null && !EXCLUDE_ACTIONS.includes(rules.excludeAction)) {
+    errors[key('excludeAction')] = `Must be one of ${EXCLUDE_ACTIONS.join(', ')}`;
+  }
+  return errors;
+};
+
+// The rules that apply to one site: its terms are added to the global ones,
+// and its weights and exclude action override them
+export const combineRules = (global = {}, site = {}) => ({
+  include: [
+    ...(global.include ?? []).map(rule => ({ ...rule, scope: 'global' })),
+    ...(site.include ?? []).map(rule => ({ ...rule, scope: 'site' }))
+  ],
+  exclude: [
+    ...(global.exclude ?? []).map(rule => ({ ...rule, scope: 'global' })),
+    ...(site.exclude ?? []).map(rule => ({ ...rule, scope: 'site' }))
+  ],
+  weights: { ...DEFAULT_WEIGHTS, ...global.weights, ...site.weights },
+  excludeAction: site.excludeAction ?? global.excludeAction ?? 'flag'
+});
+
+// Score a job against combined rules. Returns { score, reasons, excludedBy },
+// where reasons lists { term, field, points, scope } for every include match
+// and excludedBy is the first exclude term found, or null.
+export const scoreJob = (job, rules) => {
+  const text = Object.fromEntries(RELEVANCE_FIELDS.map(field => [field, normalize(job[field])]));
+  const reasons = [];
+  
+  for (const rule of rules.include) {
+    const term = normalize(rule.term);
+    if (term === '  ') continue;
+    for (const field of RELEVANCE_FIELDS) {
+      const points = (rule.weight ?? 1) * (rules.weights[field] ?? 0);
+      if (points !== 0 && text[field].includes(term)) {
+        reasons.push({ term: rule.term, field, points, scope: rule.scope });
+      }
+    }
+  }
+  
+  const excluded = rules.exclude.find(rule => {
+    const term = normalize(rule.term);
+    return term !== '  ' && EXCLUDE_FIELDS.some(field => text[field].includes(term));
+  });
+  
+  return {
+    score: reasons.reduce((sum, reason) => sum + reason.points, 0),
+    reasons,
+    excludedBy: excluded?.term ?? null
+  };
+};
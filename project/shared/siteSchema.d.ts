@@ -0,0 +1,10 @@
+// Types for siteSchema.js, which is plain JavaScript so the server can run it as is
+
+export type SiteFieldErrors = Record<string, string>;
+
+export declare const SITE_TYPES: string[];
+export declare const RENDER_MODES: string[];
+export declare const REQUIRED_SELECTORS: string[];
+
+export declare const selectorError: (selector: string) => string | null;
+export declare const validateSite: (site: unknown) => SiteFieldErrors;
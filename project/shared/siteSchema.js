@@ -0,0 +1,216 @@
+import { select } from 'cheerio-select';
+import { isTraversal, parse } from 'css-what';
+import { validateRelevance } from './relevance.js';
+
+// Site schema shared by the API routes and the SiteManager form, so both
+// reject the same configs. validateSite() returns field-level errors keyed by
+// dotted path (e.g. "selectors.title", "json.fields.link"); an empty object
+// means the site is valid. Cron schedules are checked by the server only.
+
+export const SITE_TYPES = ['html', 'json', 'rss'];
+
+// How pages are fetched: as served, or rendered in a headless browser first
+export const RENDER_MODES = ['static', 'browser'];
+
+export const REQUIRED_SELECTORS = ['jobContainer', 'title', 'link'];
+const OPTIONAL_SELECTORS = ['company', 'location'];
+const DETAIL_SELECTORS = ['description', 'salary', 'employmentType', 'postedDate'];
+
+const REQUIRED_JSON_FIELDS = ['title', 'link'];
+const OPTIONAL_JSON_FIELDS = ['company', 'location', 'description', 'salary', 'employmentType', 'postedDate'];
+
+// Paths such as "data.results" or "locations[0].city"
+const JSON_PATH = /^[^.[\]\s]+(\[\d+\])*(\.[^.[\]\s]+(\[\d+\])*)*$/;
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isBlank = (value) => typeof value !== 'string' || !value.trim();
+
+// Why a CSS selector can't be used by the scraper, or null if it can. The
+// selector is run through cheerio-select, the engine cheerio scrapes with, so
+// its jQuery extensions such as :first and :eq(1) are accepted. That engine
+// quietly ignores a dangling combinator ("div >"), so those are caught here.
+export const selectorError = (selector) => {
+  try {
+    select(selector, []);
+    const dangling = parse(selector).find(tokens => isTraversal(tokens[tokens.length - 1]));
+    return dangling ? 'Invalid CSS selector: it ends with a combinator' : null;
+  } catch (error) {
+    return `Invalid CSS selector: ${error.message}`;
+  }
+};
+
+const urlError = (value) => {
+  if (isBlank(value)) return 'URL is required';
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:' ? null : 'URL must start with http:// or https://';
+  } catch {
+    return 'Enter a full URL, e.g. https://example.com/jobs?q=';
+  }
+};
+
+const checkSelectors = (errors, prefix, selectors, { required = [], optional = [] }) => {
+  for (const key of required) {
+    const value = selectors[key];
+    if (isBlank(value)) {
+      errors[`${prefix}.${key}`] = 'Selector is required';
+    } else {
+      const problem = selectorError(value);
+      if (problem) errors[`${prefix}.${key}`] = problem;
+    }
+  }
+  for (const key of optional) {
+    const value = selectors[key];
+    if (value == null || value === '') continue;
+    const problem = typeof value === 'string' ? selectorError(value) : 'Selector must be text';
+    if (problem) errors[`${prefix}.${key}`] = problem;
+  }
+};
+
+const checkJsonPath = (errors, field, value, { required = false } = {}) => {
+  if (value == null || value === '') {
+    if (required) errors[field] = 'Field path is required';
+  } else if (typeof value !== 'string' || !JSON_PATH.test(value)) {
+    errors[field] = 'Use a dotted path such as company.name or locations[0].city';
+  }
+};
+
+const checkHtml = (errors, site) => {
+  if (!isPlainObject(site.selectors)) {
+    errors.selectors = 'HTML sites need CSS selectors';
+    return;
+  }
+  checkSelectors(errors, 'selectors', site.selectors, { required: REQUIRED_SELECTORS, optional: OPTIONAL_SELECTORS });
+  if (site.selectors.detail != null) {
+    if (isPlainObject(site.selectors.detail)) {
+      checkSelectors(errors, 'selectors.detail', site.selectors.detail, { optional: DETAIL_SELECTORS });
+    } else {
+      errors['selectors.detail'] = 'Detail selectors must be an object';
+    }
+  }
+};
+
+const checkJson = (errors, site) => {
+  if (!isPlainObject(site.json) || !isPlainObject(site.json.fields)) {
+    errors.json = 'JSON sites need field paths';
+    return;
+  }
+  checkJsonPath(errors, 'json.itemsPath', site.json.itemsPath);
+  checkJsonPath(errors, 'json.nextPagePath', site.json.nextPagePath);
+  for (const key of REQUIRED_JSON_FIELDS) {
+    checkJsonPath(errors, `json.fields.${key}`, site.json.fields[key], { required: true });
+  }
+  for (const key of OPTIONAL_JSON_FIELDS) {
+    checkJsonPath(errors, `json.fields.${key}`, site.json.fields[key]);
+  }
+};
+
+const checkPagination = (errors, site) => {
+  const { pagination } = site;
+  if (pagination == null) return;
+  if (!isPlainObject(pagination)) {
+    errors.pagination = 'Pagination must be an object';
+    return;
+  }
+  if (pagination.nextPageSelector) {
+    const problem = selectorError(pagination.nextPageSelector);
+    if (problem) errors['pagination.nextPageSelector'] = problem;
+  }
+  if (pagination.pageParam != null && typeof pagination.pageParam !== 'string') {
+    errors['pagination.pageParam'] = 'Page parameter must be text';
+  }
+  if (pagination.pageSize != null && !(Number.isInteger(pagination.pageSize) && pagination.pageSize > 0)) {
+    errors['pagination.pageSize'] = 'Results per page must be a whole number above 0';
+  }
+  if (pagination.maxPages != null && !(Number.isInteger(pagination.maxPages) && pagination.maxPages > 0)) {
+    errors['pagination.maxPages'] = 'Max pages must be a whole number above 0';
+  }
+};
+
+const checkPoliteness = (errors, site) => {
+  const { politeness } = site;
+  if (politeness == null) return;
+  if (!isPlainObject(politeness)) {
+    errors.politeness = 'Politeness settings must be an object';
+    return;
+  }
+  if (politeness.minDelayMs != null && !(Number.isInteger(politeness.minDelayMs) && politeness.minDelayMs >= 0)) {
+    errors['politeness.minDelayMs'] = 'Delay must be a whole number of milliseconds';
+  }
+  if (politeness.maxConcurrency != null && !(Number.isInteger(politeness.maxConcurrency) && politeness.maxConcurrency > 0)) {
+    errors['politeness.maxConcurrency'] = 'Concurrency must be a whole number above 0';
+  }
+  if (politeness.userAgent != null && (typeof politeness.userAgent !== 'string' || /[\r\n]/.test(politeness.userAgent))) {
+    errors['politeness.userAgent'] = 'User-Agent must be a single line of text';
+  }
+  if (politeness.respectRobotsTxt != null && typeof politeness.respectRobotsTxt !== 'boolean') {
+    errors['politeness.respectRobotsTxt'] = 'Must be true or false';
+  }
+};
+
+const checkRender = (errors, site, type) => {
+  const { render } = site;
+  if (render == null) return;
+  if (!isPlainObject(render)) {
+    errors.render = 'Render settings must be an object';
+    return;
+  }
+  if (render.mode != null && !RENDER_MODES.includes(render.mode)) {
+    errors['render.mode'] = `Render mode must be one of ${RENDER_MODES.join(', ')}`;
+  } else if (render.mode === 'browser' && type !== 'html') {
+    errors['render.mode'] = 'Only HTML sites can be rendered in a browser';
+  }
+  if (render.waitFor != null && render.waitFor !== '') {
+    const problem = typeof render.waitFor === 'string' ? selectorError(render.waitFor) : 'Selector must be text';
+    if (problem) errors['render.waitFor'] = problem;
+  }
+  if (render.scrollCount != null && !(Number.isInteger(render.scrollCount) && render.scrollCount >= 0 && render.scrollCount <= 50)) {
+    errors['render.scrollCount'] = 'Scrolls must be a whole number from 0 to 50';
+  }
+  if (render.scrollDelayMs != null && !(Number.isInteger(render.scrollDelayMs) && render.scrollDelayMs >= 0)) {
+    errors['render.scrollDelayMs'] = 'Delay must be a whole number of milliseconds';
+  }
+  if (render.timeoutMs != null && !(Number.isInteger(render.timeoutMs) && render.timeoutMs > 0)) {
+    errors['render.timeoutMs'] = 'Timeout must be a whole number of milliseconds above 0';
+  }
+};
+
+export const validateSite = (site) => {
+  if (!isPlainObject(site)) {
+    return { site: 'Site must be an object' };
+  }
+  
+  const errors = {};
+  const type = site.type || 'html';
+  
+  if (isBlank(site.name)) errors.name = 'Site name is required';
+  
+  const problem = urlError(site.url);
+  if (problem) errors.url = problem;
+  
+  if (!SITE_TYPES.includes(type)) {
+    errors.type = `Type must be one of ${SITE_TYPES.join(', ')}`;
+  }
+  
+  // Feeds and APIs can be fetched as is; HTML search pages need something to search for
+  const terms = site.searchTerms ?? [];
+  if (!Array.isArray(terms) || terms.some(isBlank)) {
+    errors.searchTerms = 'Search terms must be a list of non-empty text';
+  } else if (type === 'html' && terms.length === 0) {
+    errors.searchTerms = 'Add at least one search term';
+  }
+  
+  if (type === 'html') checkHtml(errors, site);
+  if (type === 'json') checkJson(errors, site);
+  checkPagination(errors, site);
+  checkPoliteness(errors, site);
+  checkRender(errors, site, type);
+  Object.assign(errors, validateRelevance(site.relevance, 'relevance'));
+  
+  if (site.enabled != null && typeof site.enabled !== 'boolean') {
+    errors.enabled = 'Enabled must be true or false';
+  }
+  
+  return errors;
+};
@@ -1,28 +1,81 @@
-import React, { useState, useEffect } from 'react';
-import { Job, Site } from './types';
-import { fetchJobs, fetchSites, addSite, updateSite, deleteSite, triggerScrape, checkServerStatus } from './api';
+import React, { useState, useEffect, useRef } from 'react';
+import { ScrapeRun, Site, SiteHealth, User } from './types';
+import { fetchSites, addSite, updateSite, deleteSite, SiteConflictError, SiteValidationError, triggerScrape, checkServerStatus, fetchActiveRun, fetchSiteHealth, subscribeToRun, fetchSession, signOut, onUnauthorized } from './api';
 import JobList from './components/JobList';
+import JobPipeline from './components/JobPipeline';
 import SiteManager from './components/SiteManager';
-import { Music, RefreshCw, Settings, Play, AlertCircle } from 'lucide-react';
+import RelevanceSettings from './components/RelevanceSettings';
+import ScrapeProgress from './components/ScrapeProgress';
+import RunHistory from './components/RunHistory';
+import PageCache from './components/PageCache';
+import NotificationInbox from './components/NotificationInbox';
+import LoginScreen from './components/LoginScreen';
+import UserManager from './components/UserManager';
+import { Music, RefreshCw, Settings, Play, AlertCircle, History, KanbanSquare, LogOut, Users } from 'lucide-react';
 
 function App() {
-  const [jobs, setJobs] = useState<Job[]>([]);
+  const [jobsRefreshToken, setJobsRefreshToken] = useState(0);
   const [sites, setSites] = useState<Site[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'jobs' | 'sites'>('jobs');
+  const [activeTab, setActiveTab] = useState<'jobs' | 'pipeline' | 'sites' | 'runs' | 'users'>('jobs');
   const [isScrapingNow, setIsScrapingNow] = useState(false);
   const [serverRunning, setServerRunning] = useState(false);
   const [isCheckingServer, setIsCheckingServer] = useState(false);
+  const [activeRun, setActiveRun] = useState<ScrapeRun | null>(null);
+  const [siteHealth, setSiteHealth] = useState<SiteHealth[]>([]);
+  const unsubscribeRunRef = useRef<(() => void) | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const sessionCheckedRef = useRef(false);
+  const isAdmin = user?.role === 'admin';
 
   useEffect(() => {
     checkServerConnection();
     
     // Check server status every 10 seconds
     const interval = setInterval(checkServerConnection, 10000);
-    return () => clearInterval(interval);
+    
+    // The session expired or was revoked: show the sign-in screen again
+    onUnauthorized(() => {
+      setUser(null);
+      setSites([]);
+      setActiveTab('jobs');
+    });
+    return () => {
+      clearInterval(interval);
+      onUnauthorized(null);
+      unsubscribeRunRef.current?.();
+    };
   }, []);
 
+  // Follow a scrape run's progress and refresh the job list once it finishes
+  const followRun = (run: ScrapeRun) => {
+    unsubscribeRunRef.current?.();
+    setActiveRun(run);
+    setIsScrapingNow(run.status === 'running');
+    
+    unsubscribeRunRef.current = subscribeToRun(
+      run.id,
+      (update) => {
+        setActiveRun(update);
+        if (update.status !== 'running') {
+          setIsScrapingNow(false);
+          setJobsRefreshToken(token => token + 1);
+          fetchSiteHealth().then(setSiteHealth);
+          if (update.status === 'failed') {
+            setError('Scraping failed. See the progress bar for details.');
+          }
+        }
+      },
+      () => {
+        setIsScrapingNow(false);
+        setError('Lost connection to the scrape in progress');
+      }
+    );
+  };
+
   const checkServerConnection = async () => {
     if (isCheckingServer) return;
     
@@ -33,8 +86,8 @@ function App() {
       
       if (isRunning) {
         setError(null);
-        if (jobs.length === 0 && sites.length === 0) {
-          loadData();
+        if (!sessionCheckedRef.current) {
+          await loadSession();
         }
       } else {
         setError('Server is not running. Please start the server with "npm run server" in a new terminal.');
@@ -47,24 +100,58 @@ function App() {
     }
   };
 
-  const loadData = async () => {
-    if (!serverRunning) {
-      await checkServerConnection();
-      if (!serverRunning) return;
+  // Find out who is signed in, and load their data if anyone is
+  const loadSession = async () => {
+    const session = await fetchSession();
+    sessionCheckedRef.current = true;
+    setSessionChecked(true);
+    setSetupRequired(session.setupRequired);
+    setUser(session.user);
+    if (session.user) {
+      await loadData();
+    } else {
+      setLoading(false);
     }
-    
+  };
+
+  const handleSignedIn = async (signedIn: User) => {
+    setUser(signedIn);
+    setSetupRequired(false);
+    await loadData();
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    unsubscribeRunRef.current?.();
+    setActiveRun(null);
+    setIsScrapingNow(false);
+    setUser(null);
+    setSites([]);
+    setSiteHealth([]);
+    setActiveTab('jobs');
+  };
+
+  // Only called once the server is known to be up and someone is signed in
+  const loadData = async () => {
     setLoading(true);
     
     try {
-      const [jobsData, sitesData] = await Promise.all([
-        fetchJobs(),
-        fetchSites()
+      const [sitesData, runningScrape, healthData] = await Promise.all([
+        fetchSites(),
+        fetchActiveRun(),
+        fetchSiteHealth()
       ]);
       
-      setJobs(jobsData);
       setSites(sitesData);
+      setSiteHealth(healthData);
+      setJobsRefreshToken(token => token + 1);
+      
+      // Pick up a scrape that was started elsewhere, e.g. by the scheduler
+      if (runningScrape) {
+        followRun(runningScrape);
+      }
       
-      if (jobsData.length > 0 || sitesData.length > 0) {
+      if (sitesData.length > 0) {
         setServerRunning(true);
         setError(null);
       }
@@ -78,7 +165,7 @@ function App() {
   const handleAddSite = async (site: Site) => {
     if (!serverRunning) {
       setError('Server is not running. Please start the server with "npm run server" in a new terminal.');
-      return;
+      throw new Error('Server is not running');
     }
     
     try {
@@ -86,26 +173,39 @@ function App() {
       const updatedSites = await fetchSites();
       setSites(updatedSites);
     } catch (err) {
-      setError('Failed to add site');
+      // Rethrown so the form stays open with the user's edits; it highlights
+      // the fields the server rejected
+      if (!(err instanceof SiteValidationError)) setError('Failed to add site');
+      throw err;
     }
   };
 
-  const handleUpdateSite = async (index: number, site: Site) => {
+  const handleUpdateSite = async (id: string, site: Site) => {
     if (!serverRunning) {
       setError('Server is not running. Please start the server with "npm run server" in a new terminal.');
-      return;
+      throw new Error('Server is not running');
     }
     
     try {
-      await updateSite(index, site);
+      await updateSite(id, site);
       const updatedSites = await fetchSites();
       setSites(updatedSites);
     } catch (err) {
-      setError('Failed to update site');
+      if (err instanceof SiteConflictError) {
+        setError(`"${err.site.name}" was changed elsewhere, so your edit was not saved. The latest version has been loaded.`);
+        setSites(await fetchSites());
+      } else if (!(err instanceof SiteValidationError)) {
+        setError('Failed to update site');
+      }
+      throw err;
     }
   };
 
-  const handleDeleteSite = async (index: number) => {
+  const handleSitesImported = async () => {
+    setSites(await fetchSites());
+  };
+
+  const handleDeleteSite = async (site: Site) => {
     if (!serverRunning) {
       setError('Server is not running. Please start the server with "npm run server" in a new terminal.');
       return;
@@ -113,11 +213,16 @@ function App() {
     
     if (window.confirm('Are you sure you want to delete this site?')) {
       try {
-        await deleteSite(index);
+        await deleteSite(site);
         const updatedSites = await fetchSites();
         setSites(updatedSites);
       } catch (err) {
-        setError('Failed to delete site');
+        if (err instanceof SiteConflictError) {
+          setError(`"${err.site.name}" was changed elsewhere, so it was not deleted. The latest version has been loaded.`);
+          setSites(await fetchSites());
+        } else {
+          setError('Failed to delete site');
+        }
       }
     }
   };
@@ -132,13 +237,8 @@ function App() {
     setError(null);
     
     try {
-      await triggerScrape();
-      // Wait a bit to allow scraping to complete
-      setTimeout(async () => {
-        const jobsData = await fetchJobs();
-        setJobs(jobsData);
-        setIsScrapingNow(false);
-      }, 3000);
+      const run = await triggerScrape();
+      followRun(run);
     } catch (err) {
       setError('Failed to trigger scraping');
       setIsScrapingNow(false);
@@ -190,13 +290,14 @@ function App() {
 
   const handleRetryConnection = async () => {
     setLoading(true);
+    sessionCheckedRef.current = false;
     await checkServerConnection();
-    if (serverRunning) {
-      await loadData();
-    }
     setLoading(false);
   };
 
+  // The server is up but nobody is signed in
+  const signedOut = serverRunning && sessionChecked && !user;
+
   return (
     <div className="min-h-screen bg-gray-100">
       <header className="bg-indigo-700 text-white shadow-md">
@@ -208,6 +309,21 @@ function App() {
             </div>
             
             <div className="flex gap-2 items-center">
+              {serverRunning && user && (
+                <>
+                  <NotificationInbox refreshToken={jobsRefreshToken} />
+                  <span className="text-sm text-indigo-100" title={isAdmin ? 'Admin' : undefined}>
+                    {user.username}{isAdmin && ' (admin)'}
+                  </span>
+                  <button
+                    onClick={handleSignOut}
+                    title="Sign out"
+                    className="flex items-center gap-1 text-white px-2 py-2 rounded-md hover:bg-indigo-600 transition-colors"
+                  >
+                    <LogOut size={16} />
+                  </button>
+                </>
+              )}
               {!serverRunning && (
                 <button 
                   onClick={startServer}
@@ -219,7 +335,7 @@ function App() {
               )}
               <button
                 onClick={handleScrapeNow}
-                disabled={isScrapingNow || !serverRunning}
+                disabled={isScrapingNow || !serverRunning || !user}
                 className="flex items-center gap-1 bg-white text-indigo-700 px-4 py-2 rounded-md hover:bg-gray-100 transition-colors disabled:bg-gray-300 disabled:text-gray-500"
               >
                 <RefreshCw size={16} className={isScrapingNow ? "animate-spin" : ""} />
@@ -230,6 +346,10 @@ function App() {
         </div>
       </header>
       
+      {activeRun && (
+        <ScrapeProgress run={activeRun} onDismiss={() => setActiveRun(null)} />
+      )}
+      
       <main className="container mx-auto px-4 py-8">
         {error && (
           <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
@@ -260,33 +380,72 @@ function App() {
           </div>
         )}
         
-        <div className="mb-6">
-          <div className="flex border-b border-gray-200">
-            <button
-              className={`px-4 py-2 font-medium text-sm ${
-                activeTab === 'jobs'
-                  ? 'border-b-2 border-indigo-500 text-indigo-600'
-                  : 'text-gray-500 hover:text-gray-700'
-              }`}
-              onClick={() => setActiveTab('jobs')}
-            >
-              Job Listings
-            </button>
-            <button
-              className={`px-4 py-2 font-medium text-sm flex items-center ${
-                activeTab === 'sites'
-                  ? 'border-b-2 border-indigo-500 text-indigo-600'
-                  : 'text-gray-500 hover:text-gray-700'
-              }`}
-              onClick={() => setActiveTab('sites')}
-            >
-              <Settings size={16} className="mr-1" />
-              Configure Sites
-            </button>
+        {!signedOut && (
+          <div className="mb-6">
+            <div className="flex border-b border-gray-200">
+              <button
+                className={`px-4 py-2 font-medium text-sm ${
+                  activeTab === 'jobs'
+                    ? 'border-b-2 border-indigo-500 text-indigo-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+                onClick={() => setActiveTab('jobs')}
+              >
+                Job Listings
+              </button>
+              <button
+                className={`px-4 py-2 font-medium text-sm flex items-center ${
+                  activeTab === 'pipeline'
+                    ? 'border-b-2 border-indigo-500 text-indigo-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+                onClick={() => setActiveTab('pipeline')}
+              >
+                <KanbanSquare size={16} className="mr-1" />
+                Pipeline
+              </button>
+              <button
+                className={`px-4 py-2 font-medium text-sm flex items-center ${
+                  activeTab === 'sites'
+                    ? 'border-b-2 border-indigo-500 text-indigo-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+                onClick={() => setActiveTab('sites')}
+              >
+                <Settings size={16} className="mr-1" />
+                Configure Sites
+              </button>
+              <button
+                className={`px-4 py-2 font-medium text-sm flex items-center ${
+                  activeTab === 'runs'
+                    ? 'border-b-2 border-indigo-500 text-indigo-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+                onClick={() => setActiveTab('runs')}
+              >
+                <History size={16} className="mr-1" />
+                Run History
+              </button>
+              {isAdmin && (
+                <button
+                  className={`px-4 py-2 font-medium text-sm flex items-center ${
+                    activeTab === 'users'
+                      ? 'border-b-2 border-indigo-500 text-indigo-600'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                  onClick={() => setActiveTab('users')}
+                >
+                  <Users size={16} className="mr-1" />
+                  Users
+                </button>
+              )}
+            </div>
           </div>
-        </div>
+        )}
         
-        {loading ? (
+        {signedOut ? (
+          <LoginScreen setupRequired={setupRequired} onSignedIn={handleSignedIn} />
+        ) : loading ? (
           <div className="flex justify-center items-center h-64">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
           </div>
@@ -294,15 +453,8 @@ function App() {
           <>
             {activeTab === 'jobs' && (
               <>
-                <div className="mb-4">
-                  <p className="text-gray-600">
-                    {serverRunning 
-                      ? `Found ${jobs.length} job listings matching your keywords.`
-                      : "Connect to the server to view job listings."}
-                  </p>
-                </div>
-                {serverRunning || jobs.length > 0 ? (
-                  <JobList jobs={jobs} />
+                {serverRunning ? (
+                  <JobList refreshToken={jobsRefreshToken} />
                 ) : (
                   <div className="bg-white p-8 rounded-lg shadow-md text-center">
                     <AlertCircle size={48} className="mx-auto mb-4 text-yellow-500" />
@@ -331,15 +483,36 @@ function App() {
               </>
             )}
             
+            {activeTab === 'pipeline' && serverRunning && (
+              <JobPipeline refreshToken={jobsRefreshToken} />
+            )}
+            
             {activeTab === 'sites' && (
-              <SiteManager
-                sites={sites}
-                onAddSite={handleAddSite}
-                onUpdateSite={handleUpdateSite}
-                onDeleteSite={handleDeleteSite}
-                serverRunning={serverRunning}
-                onStartServer={startServer}
-              />
+              <>
+                <SiteManager
+                  sites={sites}
+                  siteHealth={siteHealth}
+                  onAddSite={handleAddSite}
+                  onUpdateSite={handleUpdateSite}
+                  onDeleteSite={handleDeleteSite}
+                  onSitesImported={handleSitesImported}
+                  serverRunning={serverRunning}
+                  onStartServer={startServer}
+                  canEdit={isAdmin}
+                />
+                {serverRunning && isAdmin && <RelevanceSettings />}
+              </>
+            )}
+            
+            {activeTab === 'runs' && (
+              <div className="space-y-6">
+                <RunHistory refreshToken={jobsRefreshToken} />
+                <PageCache refreshToken={jobsRefreshToken} canClear={isAdmin} />
+              </div>
+            )}
+            
+            {activeTab === 'users' && user && isAdmin && (
+              <UserManager currentUser={user} />
             )}
           </>
         )}
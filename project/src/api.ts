@@ -1,14 +1,24 @@
 import axios from 'axios';
-import { Job, Site } from './types';
+import { AuthSession, CachedPageList, Job, JobExportFormat, JobFacets, JobPage, JobQuery, JobUserState, JobUserStateChanges, NotificationChannel, NotificationPage, RelevanceRules, SavedSearch, SavedSearchNotify, ScrapeRun, ScrapeRunPage, SelectorTestResult, Site, SiteBundle, SiteFieldErrors, SiteHealth, SiteImportEntry, SiteImportResolution, SiteImportResult, SitePreset, SiteSchedule, User, UserRole } from './types';
 
 const API_URL = 'http://localhost:3001/api';
 
-// Configure axios with timeout and retry logic
+// Configure axios with timeout and retry logic. The session cookie goes with
+// every request, including to the server's other port.
 const api = axios.create({
   baseURL: API_URL,
   timeout: 5000, // 5 second timeout
+  withCredentials: true,
 });
 
+// Called when a request is turned away for want of a session, e.g. after it
+// expired, so the app can ask the user to sign in again
+let unauthorizedHandler: (() => void) | null = null;
+
+export const onUnauthorized = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
 // Add retry interceptor
 let retryCount = 0;
 const MAX_RETRIES = 2;
@@ -16,6 +26,11 @@ const MAX_RETRIES = 2;
 api.interceptors.response.use(undefined, async (error) => {
   const config = error.config;
   
+  // A failed sign-in is reported by the sign-in form itself
+  if (error.response?.status === 401 && !config?.url?.startsWith('/auth/')) {
+    unauthorizedHandler?.();
+  }
+  
   // Only retry on network errors or 5xx server errors, not on 4xx client errors
   if (
     (error.message === 'Network Error' || (error.response && error.response.status >= 500)) && 
@@ -32,16 +47,145 @@ api.interceptors.response.use(undefined, async (error) => {
   return Promise.reject(error);
 });
 
-export const fetchJobs = async (): Promise<Job[]> => {
+export const fetchSession = async (): Promise<AuthSession> => {
   try {
-    const response = await api.get('/jobs');
+    const response = await api.get('/auth/session');
     return response.data;
-  } catch (error: any) {
-    console.error('Error fetching jobs:', error.message || 'Server connection failed');
+  } catch (error) {
+    console.error('Error fetching session:', (error as Error).message || 'Server connection failed');
+    return { user: null, setupRequired: false };
+  }
+};
+
+export const signIn = async (username: string, password: string): Promise<User> => {
+  try {
+    const response = await api.post('/auth/login', { username, password });
+    return response.data.user;
+  } catch (error) {
+    console.error('Error signing in:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+// Create the first account, as an admin, and sign in with it
+export const createAdminAccount = async (username: string, password: string): Promise<User> => {
+  try {
+    const response = await api.post('/auth/setup', { username, password });
+    return response.data.user;
+  } catch (error) {
+    console.error('Error creating admin account:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+export const signOut = async (): Promise<void> => {
+  try {
+    await api.post('/auth/logout');
+  } catch (error) {
+    console.error('Error signing out:', (error as Error).message || 'Server connection failed');
+  }
+};
+
+export const fetchUsers = async (): Promise<User[]> => {
+  try {
+    const response = await api.get('/users');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching users:', (error as Error).message || 'Server connection failed');
     return [];
   }
 };
 
+export const addUser = async (username: string, password: string, role: UserRole): Promise<User> => {
+  try {
+    const response = await api.post('/users', { username, password, role });
+    return response.data;
+  } catch (error) {
+    console.error('Error adding user:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+// Change a user's role or password; a new password signs them out elsewhere
+export const updateUser = async (id: string, changes: { role?: UserRole; password?: string }): Promise<User> => {
+  try {
+    const response = await api.patch(`/users/${id}`, changes);
+    return response.data;
+  } catch (error) {
+    console.error('Error updating user:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+export const deleteUser = async (id: string): Promise<void> => {
+  try {
+    await api.delete(`/users/${id}`);
+  } catch (error) {
+    console.error('Error deleting user:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+const emptyJobPage: JobPage = { jobs: [], total: 0, offset: 0, limit: 0, nextOffset: null };
+
+export const fetchJobs = async (query: JobQuery = {}): Promise<JobPage> => {
+  try {
+    const response = await api.get('/jobs', { params: query });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching jobs:', (error as Error).message || 'Server connection failed');
+    return emptyJobPage;
+  }
+};
+
+export const fetchJobFacets = async (): Promise<JobFacets> => {
+  try {
+    const response = await api.get('/jobs/facets');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching job facets:', (error as Error).message || 'Server connection failed');
+    return { sources: [], keywords: [], locations: [] };
+  }
+};
+
+// Place names the "within N miles" filter accepts
+export const fetchPlaces = async (): Promise<string[]> => {
+  try {
+    const response = await api.get('/places');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching places:', (error as Error).message || 'Server connection failed');
+    return [];
+  }
+};
+
+// Download link for every job matching the query; the server ignores paging
+// and exports the whole filtered set
+export const jobExportUrl = (query: JobQuery, format: JobExportFormat): string =>
+  api.getUri({ url: '/jobs/export', params: { ...query, format } });
+
+// Jobs that have a pipeline stage, most recently updated first
+export const fetchTrackedJobs = async (): Promise<Job[]> => {
+  try {
+    const response = await api.get('/jobs/tracked');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching tracked jobs:', (error as Error).message || 'Server connection failed');
+    return [];
+  }
+};
+
+// Returns the job's merged state, or null once nothing is left in it
+export const updateJobState = async (jobId: string, changes: JobUserStateChanges): Promise<JobUserState | null> => {
+  try {
+    const response = await api.patch(`/jobs/${encodeURIComponent(jobId)}/state`, changes);
+    return response.data;
+  } catch (error) {
+    console.error('Error updating job state:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
 export const fetchSites = async (): Promise<Site[]> => {
   try {
     const response = await api.get('/sites');
@@ -58,40 +202,320 @@ export const addSite = async (site: Site): Promise<Site | null> => {
     return response.data;
   } catch (error: any) {
     console.error('Error adding site:', error.message || 'Server connection failed');
+    throw toSiteError(error);
+  }
+};
+
+// Thrown by updateSite/deleteSite when the site changed since it was loaded
+export class SiteConflictError extends Error {
+  constructor(public site: Site) {
+    super('Site was changed by someone else');
+    this.name = 'SiteConflictError';
+  }
+}
+
+// Thrown by addSite/updateSite when the server rejects some of the site's fields
+export class SiteValidationError extends Error {
+  constructor(public fieldErrors: SiteFieldErrors) {
+    super('Site has invalid fields');
+    this.name = 'SiteValidationError';
+  }
+}
+
+// Send the version we last saw so the server can reject conflicting edits
+const ifMatch = (site: Site) => (site.version != null ? { 'If-Match': `"${site.version}"` } : {});
+
+const toSiteError = (error: unknown) => {
+  if (axios.isAxiosError(error) && error.response?.status === 409) {
+    return new SiteConflictError(error.response.data.site);
+  }
+  if (axios.isAxiosError(error) && error.response?.status === 400 && error.response.data?.fieldErrors) {
+    return new SiteValidationError(error.response.data.fieldErrors);
+  }
+  return error;
+};
+
+export const updateSite = async (id: string, site: Site): Promise<Site> => {
+  try {
+    const response = await api.put(`/sites/${id}`, site, { headers: ifMatch(site) });
+    return response.data;
+  } catch (error) {
+    console.error('Error updating site:', (error as Error).message || 'Server connection failed');
+    throw toSiteError(error);
+  }
+};
+
+export const deleteSite = async (site: Site): Promise<boolean> => {
+  try {
+    await api.delete(`/sites/${site.id}`, { headers: ifMatch(site) });
+    return true;
+  } catch (error) {
+    console.error('Error deleting site:', (error as Error).message || 'Server connection failed');
+    throw toSiteError(error);
+  }
+};
+
+export const fetchRelevanceRules = async (): Promise<RelevanceRules> => {
+  try {
+    const response = await api.get('/relevance');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching relevance rules:', (error as Error).message || 'Server connection failed');
     throw error;
   }
 };
 
-export const updateSite = async (index: number, site: Site): Promise<Site | null> => {
+// Save the global rules; the server rescores every job and says how many changed
+export const saveRelevanceRules = async (rules: RelevanceRules): Promise<{ rules: RelevanceRules; rescored: number }> => {
   try {
-    const response = await api.put(`/sites/${index}`, site);
+    const response = await api.put('/relevance', rules, { timeout: 20000 });
     return response.data;
-  } catch (error: any) {
-    console.error('Error updating site:', error.message || 'Server connection failed');
+  } catch (error) {
+    console.error('Error saving relevance rules:', (error as Error).message || 'Server connection failed');
     throw error;
   }
 };
 
-export const deleteSite = async (index: number): Promise<boolean> => {
+// Download link for a bundle of the given sites, or of every site
+export const siteExportUrl = (ids?: string[]): string =>
+  api.getUri({ url: '/sites/export', params: ids ? { ids: ids.join(',') } : {} });
+
+export const fetchSitePresets = async (): Promise<SitePreset[]> => {
   try {
-    await api.delete(`/sites/${index}`);
-    return true;
-  } catch (error: any) {
-    console.error('Error deleting site:', error.message || 'Server connection failed');
+    const response = await api.get('/sites/presets');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching site presets:', (error as Error).message || 'Server connection failed');
+    return [];
+  }
+};
+
+export const fetchSitePreset = async (id: string): Promise<SiteBundle> => {
+  try {
+    const response = await api.get(`/sites/presets/${encodeURIComponent(id)}`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching site preset:', (error as Error).message || 'Server connection failed');
     throw error;
   }
 };
 
-export const triggerScrape = async (): Promise<boolean> => {
+// Validate a bundle and compare it with the configured sites without importing anything
+export const previewSiteImport = async (bundle: unknown): Promise<SiteImportEntry[]> => {
   try {
-    await api.post('/scrape');
-    return true;
-  } catch (error: any) {
-    console.error('Error triggering scrape:', error.message || 'Server connection failed');
+    const response = await api.post('/sites/import/preview', { bundle });
+    return response.data;
+  } catch (error) {
+    console.error('Error previewing site import:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+// resolutions[i] says what to do with bundle.sites[i]
+export const importSites = async (bundle: unknown, resolutions: SiteImportResolution[]): Promise<SiteImportResult> => {
+  try {
+    const response = await api.post('/sites/import', { bundle, resolutions });
+    return response.data;
+  } catch (error) {
+    console.error('Error importing sites:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+export const fetchSchedules = async (): Promise<SiteSchedule[]> => {
+  try {
+    const response = await api.get('/schedules');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching schedules:', (error as Error).message || 'Server connection failed');
+    return [];
+  }
+};
+
+// Run one search term against a site's selectors without saving anything
+export const testSiteSelectors = async (site: Site, term?: string, limit = 5): Promise<SelectorTestResult> => {
+  try {
+    const response = await api.post('/sites/test', { site, term, limit }, { timeout: 20000 });
+    return response.data;
+  } catch (error) {
+    console.error('Error testing selectors:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+export const fetchSavedSearches = async (): Promise<SavedSearch[]> => {
+  try {
+    const response = await api.get('/saved-searches');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching saved searches:', (error as Error).message || 'Server connection failed');
+    return [];
+  }
+};
+
+type SavedSearchInput = Pick<SavedSearch, 'name' | 'filters' | 'notify'>;
+
+export const addSavedSearch = async (search: SavedSearchInput): Promise<SavedSearch> => {
+  try {
+    const response = await api.post('/saved-searches', search);
+    return response.data;
+  } catch (error) {
+    console.error('Error adding saved search:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+export const updateSavedSearch = async (id: string, search: SavedSearchInput): Promise<SavedSearch> => {
+  try {
+    const response = await api.put(`/saved-searches/${id}`, search);
+    return response.data;
+  } catch (error) {
+    console.error('Error updating saved search:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+export const deleteSavedSearch = async (id: string): Promise<void> => {
+  try {
+    await api.delete(`/saved-searches/${id}`);
+  } catch (error) {
+    console.error('Error deleting saved search:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+// Clear a saved search's unread count, returning the updated search
+export const markSavedSearchRead = async (id: string): Promise<SavedSearch | null> => {
+  try {
+    const response = await api.post(`/saved-searches/${id}/read`);
+    return response.data;
+  } catch (error) {
+    console.error('Error marking saved search read:', (error as Error).message || 'Server connection failed');
+    return null;
+  }
+};
+
+export const fetchNotifications = async (limit = 20): Promise<NotificationPage> => {
+  try {
+    const response = await api.get('/notifications', { params: { limit } });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching notifications:', (error as Error).message || 'Server connection failed');
+    return { notifications: [], unread: 0 };
+  }
+};
+
+// Mark notifications read; all of them when no ids are given
+export const markNotificationsRead = async (ids?: string[]): Promise<void> => {
+  try {
+    await api.post('/notifications/read', { ids });
+  } catch (error) {
+    console.error('Error marking notifications read:', (error as Error).message || 'Server connection failed');
+  }
+};
+
+// Send a test message through one channel with unsaved settings
+export const testNotification = async (channel: NotificationChannel, notify: SavedSearchNotify): Promise<void> => {
+  try {
+    await api.post('/notifications/test', { channel, notify }, { timeout: 20000 });
+  } catch (error) {
+    console.error('Error testing notification:', (error as Error).message || 'Server connection failed');
     throw error;
   }
 };
 
+// Start a background scrape. If one is already running, that run is returned instead.
+export const triggerScrape = async (): Promise<ScrapeRun> => {
+  try {
+    const response = await api.post('/scrape');
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 409) {
+      return error.response.data.run;
+    }
+    console.error('Error triggering scrape:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+export const fetchActiveRun = async (): Promise<ScrapeRun | null> => {
+  try {
+    const response = await api.get('/runs/active');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching active run:', (error as Error).message || 'Server connection failed');
+    return null;
+  }
+};
+
+export const fetchRuns = async (limit = 20, offset = 0): Promise<ScrapeRunPage> => {
+  try {
+    const response = await api.get('/runs', { params: { limit, offset } });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching runs:', (error as Error).message || 'Server connection failed');
+    return { runs: [], total: 0 };
+  }
+};
+
+export const fetchSiteHealth = async (): Promise<SiteHealth[]> => {
+  try {
+    const response = await api.get('/runs/site-health');
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching site health:', (error as Error).message || 'Server connection failed');
+    return [];
+  }
+};
+
+export const fetchCachedPages = async (q = '', limit = 50, offset = 0): Promise<CachedPageList> => {
+  try {
+    const response = await api.get('/cache', { params: { q: q || undefined, limit, offset } });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching cached pages:', (error as Error).message || 'Server connection failed');
+    return { entries: [], total: 0, totalSize: 0 };
+  }
+};
+
+// Link to a cached page's body as plain text, or rendered (without scripts)
+export const cachedPageUrl = (url: string, render = false): string =>
+  api.getUri({ url: '/cache/raw', params: render ? { url, render: true } : { url } });
+
+// Drop one page from the response cache, or all of them; returns how many were removed
+export const clearCachedPages = async (url?: string): Promise<number> => {
+  try {
+    const response = await api.delete('/cache', { params: url ? { url } : {} });
+    return response.data.removed;
+  } catch (error) {
+    console.error('Error clearing cached pages:', (error as Error).message || 'Server connection failed');
+    throw error;
+  }
+};
+
+// Follow a run's progress over Server-Sent Events. Returns a function that stops listening.
+export const subscribeToRun = (
+  id: string,
+  onUpdate: (run: ScrapeRun) => void,
+  onError?: () => void
+): (() => void) => {
+  const source = new EventSource(`${API_URL}/runs/${id}/events`, { withCredentials: true });
+  
+  source.onmessage = (event) => {
+    const run: ScrapeRun = JSON.parse(event.data);
+    onUpdate(run);
+    if (run.status !== 'running') {
+      source.close();
+    }
+  };
+  source.onerror = () => {
+    source.close();
+    onError?.();
+  };
+  
+  return () => source.close();
+};
+
 // Check if server is running
 export const checkServerStatus = async (): Promise<boolean> => {
   try {
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { Job, JobStage, JobUserStateChanges } from '../types';
+import { jobStages } from '../jobStages';
+import { workModes } from '../workModes';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ExternalLink, Briefcase, MapPin, Calendar, DollarSign, ChevronDown, ChevronUp, Eye, EyeOff, StickyNote } from 'lucide-react';
+
+interface JobCardProps {
+  job: Job;
+  // First seen since the user's previous visit
+  isNew: boolean;
+  onStateChange: (job: Job, changes: JobUserStateChanges) => void;
+}
+
+const JobCard: React.FC<JobCardProps> = ({ job, isNew, onStateChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [showReasons, setShowReasons] = useState(false);
+  const [editingNotes, setEditingNotes] = useState(false);
+  const [notes, setNotes] = useState(job.userState?.notes || '');
+  const state = job.userState;
+  const stage = jobStages.find(option => option.value === state?.stage);
+  const workMode = workModes.find(option => option.value === job.workMode);
+
+  const saveNotes = () => {
+    if (notes !== (state?.notes || '')) {
+      onStateChange(job, { notes });
+    }
+  };
+
+  return (
+    <div
+      className={`bg-white p-5 rounded-lg shadow hover:shadow-md transition-shadow ${
+        job.status === 'expired' ? 'opacity-60' : ''
+      }`}
+    >
+      <div className="flex justify-between items-start">
+        <div className="flex items-center gap-2">
+          <h3 className="text-xl font-semibold text-indigo-700">{job.title}</h3>
+          {isNew && (
+            <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 text-xs font-semibold rounded-full">
+              New
+            </span>
+          )}
+          {stage && (
+            <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${stage.badgeClass}`}>
+              {stage.label}
+              {state?.stage === 'applied' && state.appliedAt && ` ${format(new Date(state.appliedAt), 'PP')}`}
+            </span>
+          )}
+        </div>
+        <a 
+          href={job.link} 
+          target="_blank" 
+          rel="noopener noreferrer"
+          className="text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+        >
+          <ExternalLink size={16} />
+          <span className="hidden sm:inline">View</span>
+        </a>
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-y-2">
+        <div className="flex items-center text-gray-600 mr-4">
+          <Briefcase size={16} className="mr-1" />
+          <span>{job.company}</span>
+        </div>
+
+        <div className="flex items-center text-gray-600 mr-4">
+          <MapPin size={16} className="mr-1" />
+          <span>{job.location}</span>
+          {workMode && (
+            <span className={`ml-2 px-2 py-0.5 text-xs font-semibold rounded-full ${workMode.badgeClass}`}>
+              {workMode.label}
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center text-gray-600">
+          <Calendar size={16} className="mr-1" />
+          <span title={`Last seen ${formatDistanceToNow(new Date(job.lastSeen), { addSuffix: true })}`}>
+            {job.postedDate
+              ? `Posted ${formatDistanceToNow(new Date(job.postedDate), { addSuffix: true })}`
+              : `First seen ${formatDistanceToNow(new Date(job.firstSeen), { addSuffix: true })}`}
+          </span>
+        </div>
+        
+        {job.salary && (
+          <div className="flex items-center text-gray-600 ml-4">
+            <DollarSign size={16} className="mr-1" />
+            <span>{job.salary}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <span className="px-2 py-1 bg-indigo-100 text-indigo-800 text-xs font-medium rounded">
+          {job.source}
+        </span>
+        {job.sources?.filter(other => other.id !== job.id).map(other => (
+          <a
+            key={other.id}
+            href={other.link}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={`Also listed on ${other.source}`}
+            className="inline-flex items-center gap-1 px-2 py-1 bg-indigo-50 text-indigo-700 text-xs font-medium rounded border border-indigo-200 hover:bg-indigo-100"
+          >
+            {other.source}
+            <ExternalLink size={10} />
+          </a>
+        ))}
+        {job.keyword && (
+          <span className="px-2 py-1 bg-green-100 text-green-800 text-xs font-medium rounded">
+            {job.keyword}
+          </span>
+        )}
+        {job.status === 'expired' && (
+          <span className="px-2 py-1 bg-gray-200 text-gray-700 text-xs font-medium rounded">
+            Expired
+          </span>
+        )}
+        {job.excludedBy && (
+          <span className="px-2 py-1 bg-red-100 text-red-800 text-xs font-medium rounded">
+            Excluded: {job.excludedBy}
+          </span>
+        )}
+        {job.scoreReasons && job.scoreReasons.length > 0 && (
+          <button
+            onClick={() => setShowReasons(!showReasons)}
+            title="Why this job matched"
+            className="px-2 py-1 bg-amber-100 text-amber-800 text-xs font-medium rounded hover:bg-amber-200"
+          >
+            Score {job.score}
+          </button>
+        )}
+        {job.employmentType && (
+          <span className="px-2 py-1 bg-purple-100 text-purple-800 text-xs font-medium rounded">
+            {job.employmentType}
+          </span>
+        )}
+      </div>
+      
+      {showReasons && job.scoreReasons && (
+        <ul className="mt-2 text-sm text-gray-600">
+          {job.scoreReasons.map((reason, index) => (
+            <li key={index}>
+              "{reason.term}" in {reason.field}
+              <span className={reason.points < 0 ? 'text-red-600' : 'text-green-700'}>
+                {' '}{reason.points < 0 ? reason.points : `+${reason.points}`}
+              </span>
+              {reason.scope === 'site' && <span className="text-gray-400"> ({job.source} rule)</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      
+      {job.description && (
+        <div className="mt-3">
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+          >
+            {expanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+            {expanded ? 'Hide details' : 'Show details'}
+          </button>
+          
+          {expanded && (
+            <div className="mt-3 pt-3 border-t border-gray-100 text-sm text-gray-700">
+              {job.postedDate && (
+                <p className="mb-2 text-gray-500">
+                  Posted {format(new Date(job.postedDate), 'PP')}
+                </p>
+              )}
+              <p className="whitespace-pre-line">{job.description}</p>
+            </div>
+          )}
+        </div>
+      )}
+      
+      <div className="mt-3 pt-3 border-t border-gray-100 flex flex-wrap items-center gap-3 text-sm">
+        <select
+          value={state?.stage || ''}
+          onChange={(e) => onStateChange(job, { stage: (e.target.value || null) as JobStage | null })}
+          className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">Not tracked</option>
+          {jobStages.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setEditingNotes(!editingNotes)}
+          className="flex items-center gap-1 text-gray-600 hover:text-indigo-700"
+        >
+          <StickyNote size={16} />
+          {state?.notes ? 'Notes' : 'Add notes'}
+        </button>
+        <button
+          onClick={() => onStateChange(job, { hidden: !state?.hidden })}
+          className="flex items-center gap-1 text-gray-600 hover:text-indigo-700"
+        >
+          {state?.hidden ? <Eye size={16} /> : <EyeOff size={16} />}
+          {state?.hidden ? 'Unhide' : 'Hide'}
+        </button>
+      </div>
+      
+      {editingNotes ? (
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={saveNotes}
+          rows={3}
+          autoFocus
+          className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          placeholder="Contacts, follow-up dates, impressions..."
+        />
+      ) : state?.notes && (
+        <p className="mt-2 text-sm text-gray-600 whitespace-pre-line">{state.notes}</p>
+      )}
+    </div>
+  );
+};
+
+export default JobCard;
@@ -1,35 +1,175 @@
-import React, { useState } from 'react';
-import { Job } from '../types';
-import { formatDistanceToNow } from 'date-fns';
-import { ExternalLink, Briefcase, MapPin, Calendar, Search } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Job, JobExportFormat, JobFacets, JobQuery, JobSort, JobUserStateChanges, SavedSearch, SavedSearchFilters, WorkMode } from '../types';
+import { fetchJobs, fetchJobFacets, fetchPlaces, updateJobState, jobExportUrl } from '../api';
+import { workModes } from '../workModes';
+import JobCard from './JobCard';
+import SavedSearches from './SavedSearches';
+import { parseISO, startOfDay, endOfDay, format } from 'date-fns';
+import { Search, Download } from 'lucide-react';
 
 interface JobListProps {
-  jobs: Job[];
+  // Bumped by the parent to force a reload, e.g. after a scrape
+  refreshToken: number;
 }
 
-const JobList: React.FC<JobListProps> = ({ jobs }) => {
+const LAST_VISIT_KEY = 'jobList.lastVisit';
+const PAGE_SIZE = 25;
+const DEFAULT_RADIUS = 25;
+const RADIUS_OPTIONS = [10, 25, 50, 100, 250];
+
+// Read once per page load so badges don't vanish when switching tabs
+const lastVisit = localStorage.getItem(LAST_VISIT_KEY);
+
+const JobList: React.FC<JobListProps> = ({ refreshToken }) => {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [facets, setFacets] = useState<JobFacets>({ sources: [], keywords: [], locations: [] });
+  const [places, setPlaces] = useState<string[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [filterSource, setFilterSource] = useState<string>('');
   const [filterKeyword, setFilterKeyword] = useState<string>('');
+  const [filterWorkMode, setFilterWorkMode] = useState<WorkMode | ''>('');
+  const [filterLocation, setFilterLocation] = useState('');
+  const [near, setNear] = useState('');
+  const [within, setWithin] = useState(DEFAULT_RADIUS);
+  const [hideExpired, setHideExpired] = useState(true);
+  const [showHidden, setShowHidden] = useState(false);
+  const [hideExcluded, setHideExcluded] = useState(false);
+  const [sort, setSort] = useState<JobSort>('newest');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [activeSearchId, setActiveSearchId] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<JobExportFormat>('csv');
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Incremented on every reset so stale "load more" responses can be dropped
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    localStorage.setItem(LAST_VISIT_KEY, new Date().toISOString());
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Only a place from the list is searched around, not every half-typed name
+  const nearPlace = places.includes(near) ? near : undefined;
+
+  const filters = useMemo<SavedSearchFilters>(() => ({
+    q: debouncedSearch || undefined,
+    source: filterSource || undefined,
+    keyword: filterKeyword || undefined,
+    status: hideExpired ? 'active' : undefined,
+    from: fromDate ? startOfDay(parseISO(fromDate)).toISOString() : undefined,
+    to: toDate ? endOfDay(parseISO(toDate)).toISOString() : undefined,
+    workMode: filterWorkMode || undefined,
+    location: filterLocation || undefined,
+    near: nearPlace,
+    within: nearPlace ? within : undefined,
+    sort
+  }), [debouncedSearch, filterSource, filterKeyword, hideExpired, fromDate, toDate, filterWorkMode, filterLocation, nearPlace, within, sort]);
+
+  const query = useMemo<JobQuery>(
+    () => ({ ...filters, includeHidden: showHidden || undefined, hideExcluded: hideExcluded || undefined, limit: PAGE_SIZE }),
+    [filters, showHidden, hideExcluded]
+  );
+
+  // Load a saved search's filters into the form
+  const applySavedSearch = (search: SavedSearch) => {
+    const saved = search.filters;
+    setSearchTerm(saved.q || '');
+    setDebouncedSearch(saved.q || '');
+    setFilterSource(saved.source || '');
+    setFilterKeyword(saved.keyword || '');
+    setHideExpired(saved.status === 'active');
+    setFromDate(saved.from ? format(parseISO(saved.from), 'yyyy-MM-dd') : '');
+    setToDate(saved.to ? format(parseISO(saved.to), 'yyyy-MM-dd') : '');
+    setFilterWorkMode(saved.workMode || '');
+    setFilterLocation(saved.location || '');
+    setNear(saved.near || '');
+    setWithin(saved.within || DEFAULT_RADIUS);
+    setSort(saved.sort || 'newest');
+    setActiveSearchId(search.id);
+  };
+
+  // Reload from the first page whenever the filters change or a refresh is requested
+  useEffect(() => {
+    const requestId = ++requestRef.current;
+    setLoading(true);
+    fetchJobs({ ...query, offset: 0 }).then(page => {
+      if (requestId !== requestRef.current) return;
+      setJobs(page.jobs);
+      setTotal(page.total);
+      setNextOffset(page.nextOffset);
+      setLoading(false);
+    });
+  }, [query, refreshToken]);
 
-  // Get unique sources and keywords for filters
-  const sources = Array.from(new Set(jobs.map(job => job.source)));
-  const keywords = Array.from(new Set(jobs.map(job => job.keyword)));
+  useEffect(() => {
+    fetchJobFacets().then(setFacets);
+  }, [refreshToken]);
 
-  const filteredJobs = jobs.filter(job => {
-    const matchesSearch = searchTerm === '' || 
-      job.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      job.company.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      job.location.toLowerCase().includes(searchTerm.toLowerCase());
+  useEffect(() => {
+    fetchPlaces().then(setPlaces);
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (nextOffset === null || loading) return;
+    
+    const requestId = requestRef.current;
+    setLoading(true);
+    const page = await fetchJobs({ ...query, offset: nextOffset });
+    if (requestId !== requestRef.current) return;
     
-    const matchesSource = filterSource === '' || job.source === filterSource;
-    const matchesKeyword = filterKeyword === '' || job.keyword === filterKeyword;
+    setJobs(prev => [...prev, ...page.jobs]);
+    setTotal(page.total);
+    setNextOffset(page.nextOffset);
+    setLoading(false);
+  }, [query, nextOffset, loading]);
+
+  // Infinite scroll: load the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
     
-    return matchesSearch && matchesSource && matchesKeyword;
-  });
+    const observer = new IntersectionObserver(
+      entries => entries[0].isIntersecting && loadMore(),
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  const handleStateChange = async (job: Job, changes: JobUserStateChanges) => {
+    try {
+      const userState = await updateJobState(job.id, changes) ?? undefined;
+      if (userState?.hidden && !showHidden) {
+        setJobs(prev => prev.filter(other => other.id !== job.id));
+        setTotal(count => count - 1);
+      } else {
+        setJobs(prev => prev.map(other => (other.id === job.id ? { ...other, userState } : other)));
+      }
+    } catch {
+      // Error is already logged in the API function
+    }
+  };
+
+  const isNewSinceLastVisit = (job: Job) =>
+    lastVisit !== null && new Date(job.firstSeen) > new Date(lastVisit);
 
   return (
     <div className="w-full">
+      <SavedSearches
+        currentFilters={filters}
+        activeId={activeSearchId}
+        onApply={applySavedSearch}
+        refreshToken={refreshToken}
+      />
+      
       <div className="mb-6 bg-white p-4 rounded-lg shadow">
         <div className="flex flex-col md:flex-row gap-4 items-center">
           <div className="relative flex-grow">
@@ -50,7 +190,7 @@ const JobList: React.FC<JobListProps> = ({ jobs }) => {
               onChange={(e) => setFilterSource(e.target.value)}
             >
               <option value="">All Sources</option>
-              {sources.map(source => (
+              {facets.sources.map(source => (
                 <option key={source} value={source}>{source}</option>
               ))}
             </select>
@@ -61,64 +201,177 @@ const JobList: React.FC<JobListProps> = ({ jobs }) => {
               onChange={(e) => setFilterKeyword(e.target.value)}
             >
               <option value="">All Keywords</option>
-              {keywords.map(keyword => (
+              {facets.keywords.map(keyword => (
                 <option key={keyword} value={keyword}>{keyword}</option>
               ))}
             </select>
+            
+            <label className="flex items-center gap-2 px-2 text-sm text-gray-700 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={hideExpired}
+                onChange={(e) => setHideExpired(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Hide expired
+            </label>
+            
+            <label className="flex items-center gap-2 px-2 text-sm text-gray-700 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={showHidden}
+                onChange={(e) => setShowHidden(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Show hidden
+            </label>
+            
+            <label className="flex items-center gap-2 px-2 text-sm text-gray-700 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={hideExcluded}
+                onChange={(e) => setHideExcluded(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Hide excluded
+            </label>
           </div>
         </div>
+        
+        <div className="mt-4 flex flex-col sm:flex-row gap-2 sm:items-center text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            From
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            To
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="flex items-center gap-2 sm:ml-auto">
+            Sort by
+            <select
+              className="px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              value={sort}
+              onChange={(e) => setSort(e.target.value as JobSort)}
+            >
+              <option value="newest">Newest first</option>
+              <option value="oldest">Oldest first</option>
+              <option value="title">Title</option>
+              <option value="company">Company</option>
+              <option value="score">Relevance</option>
+            </select>
+          </label>
+        </div>
+        
+        <div className="mt-4 flex flex-col sm:flex-row gap-2 sm:items-center text-sm text-gray-700">
+          <select
+            className="px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            value={filterWorkMode}
+            onChange={(e) => setFilterWorkMode(e.target.value as WorkMode | '')}
+          >
+            <option value="">Any Work Mode</option>
+            {workModes.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+          <select
+            className="px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            value={filterLocation}
+            onChange={(e) => setFilterLocation(e.target.value)}
+          >
+            <option value="">All Locations</option>
+            {facets.locations.map(location => (
+              <option key={location.value} value={location.value}>{location.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2">
+            Within
+            <select
+              className="px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              value={within}
+              onChange={(e) => setWithin(Number(e.target.value))}
+            >
+              {RADIUS_OPTIONS.map(miles => (
+                <option key={miles} value={miles}>{miles} miles</option>
+              ))}
+            </select>
+            of
+            <input
+              type="text"
+              list="job-list-places"
+              value={near}
+              onChange={(e) => setNear(e.target.value)}
+              placeholder="Any place"
+              className={`px-3 py-1.5 border ${near && !nearPlace ? 'border-red-500' : 'border-gray-300'} rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500`}
+            />
+            <datalist id="job-list-places">
+              {places.map(place => (
+                <option key={place} value={place} />
+              ))}
+            </datalist>
+          </label>
+        </div>
       </div>
 
-      {filteredJobs.length === 0 ? (
+      <div className="mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-gray-600">
+          Found {total} job listings matching your filters.
+        </p>
+        <div className="flex items-center gap-2">
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as JobExportFormat)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+            <option value="ndjson">NDJSON</option>
+          </select>
+          <a
+            href={jobExportUrl(query, exportFormat)}
+            download
+            className="flex items-center gap-1 bg-indigo-600 text-white px-3 py-1.5 text-sm rounded-md hover:bg-indigo-700 transition-colors"
+          >
+            <Download size={16} />
+            Export
+          </a>
+        </div>
+      </div>
+
+      {jobs.length === 0 && !loading ? (
         <div className="text-center py-10 bg-white rounded-lg shadow">
           <p className="text-gray-500">No jobs found. Try adjusting your filters.</p>
         </div>
       ) : (
         <div className="space-y-4">
-          {filteredJobs.map(job => (
-            <div key={job.id} className="bg-white p-5 rounded-lg shadow hover:shadow-md transition-shadow">
-              <div className="flex justify-between items-start">
-                <h3 className="text-xl font-semibold text-indigo-700">{job.title}</h3>
-                <a 
-                  href={job.link} 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  className="text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
-                >
-                  <ExternalLink size={16} />
-                  <span className="hidden sm:inline">View</span>
-                </a>
-              </div>
-              
-              <div className="mt-2 flex flex-wrap gap-y-2">
-                <div className="flex items-center text-gray-600 mr-4">
-                  <Briefcase size={16} className="mr-1" />
-                  <span>{job.company}</span>
-                </div>
-                
-                <div className="flex items-center text-gray-600 mr-4">
-                  <MapPin size={16} className="mr-1" />
-                  <span>{job.location}</span>
-                </div>
-                
-                <div className="flex items-center text-gray-600">
-                  <Calendar size={16} className="mr-1" />
-                  <span>{formatDistanceToNow(new Date(job.date), { addSuffix: true })}</span>
-                </div>
-              </div>
-              
-              <div className="mt-3 flex flex-wrap gap-2">
-                <span className="px-2 py-1 bg-indigo-100 text-indigo-800 text-xs font-medium rounded">
-                  {job.source}
-                </span>
-                <span className="px-2 py-1 bg-green-100 text-green-800 text-xs font-medium rounded">
-                  {job.keyword}
-                </span>
-              </div>
-            </div>
+          {jobs.map(job => (
+            <JobCard key={job.id} job={job} isNew={isNewSinceLastVisit(job)} onStateChange={handleStateChange} />
           ))}
         </div>
       )}
+      
+      <div ref={sentinelRef} className="py-6 text-center">
+        {loading ? (
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-indigo-500"></div>
+        ) : nextOffset !== null && (
+          <button
+            onClick={loadMore}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+          >
+            Load more
+          </button>
+        )}
+      </div>
     </div>
   );
 };
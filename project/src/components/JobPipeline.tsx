@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { Job, JobStage, JobUserStateChanges } from '../types';
+import { fetchTrackedJobs, updateJobState } from '../api';
+import { jobStages } from '../jobStages';
+import { format, parseISO } from 'date-fns';
+import { ExternalLink, X } from 'lucide-react';
+
+interface JobPipelineProps {
+  // Bumped by the parent to force a reload, e.g. after a scrape
+  refreshToken: number;
+}
+
+interface PipelineCardProps {
+  job: Job;
+  onChange: (job: Job, changes: JobUserStateChanges) => void;
+}
+
+const PipelineCard: React.FC<PipelineCardProps> = ({ job, onChange }) => {
+  const [notes, setNotes] = useState(job.userState?.notes || '');
+  const state = job.userState;
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', job.id)}
+      className="bg-white p-3 rounded-md shadow-sm border border-gray-200 cursor-grab text-sm"
+    >
+      <div className="flex justify-between items-start gap-2">
+        <a
+          href={job.link}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-medium text-indigo-700 hover:text-indigo-900 inline-flex items-center gap-1"
+        >
+          {job.title}
+          <ExternalLink size={12} />
+        </a>
+        <button
+          onClick={() => onChange(job, { stage: null })}
+          title="Stop tracking"
+          className="text-gray-400 hover:text-red-600"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <p className="text-gray-600">{[job.company, job.location].filter(Boolean).join(' · ')}</p>
+      {job.status === 'expired' && (
+        <span className="inline-block mt-1 px-2 py-0.5 bg-gray-200 text-gray-700 text-xs font-medium rounded">
+          Expired
+        </span>
+      )}
+      
+      {state?.stage !== 'saved' && (
+        <label className="mt-2 flex items-center gap-2 text-gray-600">
+          Applied
+          <input
+            type="date"
+            value={state?.appliedAt ? format(parseISO(state.appliedAt), 'yyyy-MM-dd') : ''}
+            onChange={(e) => onChange(job, { appliedAt: e.target.value ? parseISO(e.target.value).toISOString() : null })}
+            className="px-2 py-0.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+      )}
+      
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={() => notes !== (state?.notes || '') && onChange(job, { notes })}
+        rows={2}
+        className="mt-2 w-full px-2 py-1 border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        placeholder="Notes"
+      />
+    </div>
+  );
+};
+
+const JobPipeline: React.FC<JobPipelineProps> = ({ refreshToken }) => {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dropTarget, setDropTarget] = useState<JobStage | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchTrackedJobs().then(tracked => {
+      setJobs(tracked);
+      setLoading(false);
+    });
+  }, [refreshToken]);
+
+  const handleChange = async (job: Job, changes: JobUserStateChanges) => {
+    try {
+      const userState = await updateJobState(job.id, changes);
+      setJobs(prev => (userState?.stage
+        ? prev.map(other => (other.id === job.id ? { ...other, userState } : other))
+        : prev.filter(other => other.id !== job.id)));
+    } catch {
+      // Error is already logged in the API function
+    }
+  };
+
+  const handleDrop = (stage: JobStage, jobId: string) => {
+    setDropTarget(null);
+    const job = jobs.find(other => other.id === jobId);
+    if (job && job.userState?.stage !== stage) {
+      handleChange(job, { stage });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      {jobs.length === 0 && (
+        <div className="mb-4 text-center py-6 bg-white rounded-lg shadow">
+          <p className="text-gray-500">
+            No tracked jobs yet. Pick a stage on a job in the Job Listings tab to add it here.
+          </p>
+        </div>
+      )}
+      
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {jobStages.map(stage => {
+          const stageJobs = jobs.filter(job => job.userState?.stage === stage.value);
+          return (
+            <div
+              key={stage.value}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(stage.value);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleDrop(stage.value, e.dataTransfer.getData('text/plain'))}
+              className={`p-3 rounded-lg min-h-[12rem] ${
+                dropTarget === stage.value ? 'bg-indigo-100' : 'bg-gray-200'
+              }`}
+            >
+              <div className="flex justify-between items-center mb-3">
+                <h3 className="font-semibold text-gray-700">{stage.label}</h3>
+                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${stage.badgeClass}`}>
+                  {stageJobs.length}
+                </span>
+              </div>
+              <div className="space-y-2">
+                {stageJobs.map(job => (
+                  <PipelineCard key={job.id} job={job} onChange={handleChange} />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default JobPipeline;
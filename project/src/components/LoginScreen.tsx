@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { User, UserFieldErrors } from '../types';
+import { signIn, createAdminAccount } from '../api';
+import { LogIn, UserPlus } from 'lucide-react';
+
+interface LoginScreenProps {
+  // No accounts exist yet: the form creates the admin account instead
+  setupRequired: boolean;
+  onSignedIn: (user: User) => void;
+}
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ setupRequired, onSignedIn }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<UserFieldErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setFieldErrors({});
+    
+    if (setupRequired && password !== confirmPassword) {
+      setFieldErrors({ password: 'The passwords do not match' });
+      return;
+    }
+    
+    setSubmitting(true);
+    try {
+      const user = setupRequired
+        ? await createAdminAccount(username.trim(), password)
+        : await signIn(username.trim(), password);
+      onSignedIn(user);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.data?.fieldErrors) {
+        setFieldErrors(err.response.data.fieldErrors);
+      }
+      setError(errorMessage(err, setupRequired ? 'Failed to create account' : 'Failed to sign in'));
+      setPassword('');
+      setConfirmPassword('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+      hasError ? 'border-red-400' : 'border-gray-300'
+    }`;
+
+  return (
+    <div className="max-w-sm mx-auto bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-1">
+        {setupRequired ? 'Create the admin account' : 'Sign in'}
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {setupRequired
+          ? 'There are no accounts yet. This one can manage sites and add accounts for the rest of your team.'
+          : 'Sign in to see job listings, your pipeline and saved searches.'}
+      </p>
+      
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="login-username" className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+          <input
+            id="login-username"
+            type="text"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className={inputClass(Boolean(fieldErrors.username))}
+            required
+          />
+          {fieldErrors.username && <p className="text-red-600 text-xs mt-1">{fieldErrors.username}</p>}
+        </div>
+        <div>
+          <label htmlFor="login-password" className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+          <input
+            id="login-password"
+            type="password"
+            autoComplete={setupRequired ? 'new-password' : 'current-password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass(Boolean(fieldErrors.password))}
+            required
+          />
+          {fieldErrors.password && <p className="text-red-600 text-xs mt-1">{fieldErrors.password}</p>}
+        </div>
+        {setupRequired && (
+          <div>
+            <label htmlFor="login-confirm" className="block text-sm font-medium text-gray-700 mb-1">Confirm password</label>
+            <input
+              id="login-confirm"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={inputClass(false)}
+              required
+            />
+          </div>
+        )}
+        
+        {error && !fieldErrors.username && !fieldErrors.password && (
+          <p className="text-red-600 text-sm">{error}</p>
+        )}
+        
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full flex items-center justify-center gap-1 bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:bg-indigo-300"
+        >
+          {setupRequired ? <UserPlus size={16} /> : <LogIn size={16} />}
+          {setupRequired ? 'Create account' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,126 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppNotification } from '../types';
+import { fetchNotifications, markNotificationsRead } from '../api';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, ExternalLink } from 'lucide-react';
+
+interface NotificationInboxProps {
+  // Bumped by the parent to reload, e.g. after a scrape
+  refreshToken: number;
+}
+
+const NotificationInbox: React.FC<NotificationInboxProps> = ({ refreshToken }) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const load = async () => {
+    const page = await fetchNotifications();
+    setNotifications(page.notifications);
+    setUnread(page.unread);
+  };
+
+  useEffect(() => {
+    load();
+  }, [refreshToken]);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleToggle = () => {
+    if (!open) load();
+    setOpen(!open);
+  };
+
+  const handleRead = async (notification: AppNotification) => {
+    if (notification.read) return;
+    await markNotificationsRead([notification.id]);
+    setNotifications(prev => prev.map(other => (other.id === notification.id ? { ...other, read: true } : other)));
+    setUnread(count => Math.max(0, count - 1));
+  };
+
+  const handleReadAll = async () => {
+    await markNotificationsRead();
+    setNotifications(prev => prev.map(notification => ({ ...notification, read: true })));
+    setUnread(0);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={handleToggle}
+        title="Notifications"
+        className="relative flex items-center bg-indigo-600 text-white p-2 rounded-md hover:bg-indigo-500 transition-colors"
+      >
+        <Bell size={20} />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] px-1 bg-red-500 text-white text-xs font-semibold rounded-full text-center">
+            {unread}
+          </span>
+        )}
+      </button>
+      
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white text-gray-800 rounded-lg shadow-lg z-10">
+          <div className="flex justify-between items-center px-4 py-2 border-b border-gray-200">
+            <span className="font-medium">Notifications</span>
+            {unread > 0 && (
+              <button onClick={handleReadAll} className="text-xs text-indigo-600 hover:text-indigo-800">
+                Mark all read
+              </button>
+            )}
+          </div>
+          
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications yet.</p>
+          ) : (
+            notifications.map(notification => (
+              <div
+                key={notification.id}
+                onClick={() => handleRead(notification)}
+                className={`px-4 py-3 border-b border-gray-100 text-sm cursor-pointer ${notification.read ? '' : 'bg-indigo-50'}`}
+              >
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">{notification.title}</span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </span>
+                </div>
+                <ul className="mt-1 space-y-0.5">
+                  {notification.jobs.slice(0, 5).map(job => (
+                    <li key={job.id} className="truncate">
+                      <a
+                        href={job.link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-800"
+                      >
+                        {job.title}
+                        <ExternalLink size={12} />
+                      </a>
+                      {job.company && <span className="text-gray-500"> · {job.company}</span>}
+                    </li>
+                  ))}
+                  {notification.jobs.length > 5 && (
+                    <li className="text-gray-500">and {notification.jobs.length - 5} more</li>
+                  )}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationInbox;
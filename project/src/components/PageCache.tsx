@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { CachedPage } from '../types';
+import { fetchCachedPages, cachedPageUrl, clearCachedPages } from '../api';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Code, Eye, Search, Trash2 } from 'lucide-react';
+
+interface PageCacheProps {
+  // Bumped by the parent to force a reload, e.g. after a scrape
+  refreshToken: number;
+  // Only admins can remove pages from the cache
+  canClear: boolean;
+}
+
+const PAGE_SIZE = 50;
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Search result pages kept by the scraper's response cache, with links to the
+// saved bodies for checking selectors against
+const PageCache: React.FC<PageCacheProps> = ({ refreshToken, canClear }) => {
+  const [entries, setEntries] = useState<CachedPage[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totalSize, setTotalSize] = useState(0);
+  // The filter box's text, and the filter last applied to the list
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState('');
+  // Bumped to reload after removing pages
+  const [reloadToken, setReloadToken] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCachedPages(filter, PAGE_SIZE).then(page => {
+      setEntries(page.entries);
+      setTotal(page.total);
+      setTotalSize(page.totalSize);
+    });
+  }, [refreshToken, filter, reloadToken]);
+
+  const handleLoadMore = async () => {
+    const page = await fetchCachedPages(filter, PAGE_SIZE, entries.length);
+    setEntries([...entries, ...page.entries]);
+    setTotal(page.total);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilter(query.trim());
+  };
+
+  const handleRemove = async (url?: string) => {
+    if (!url && !window.confirm('Clear the whole page cache? The next run will download and parse every page again.')) return;
+    setError(null);
+    try {
+      await clearCachedPages(url);
+      setReloadToken(token => token + 1);
+    } catch {
+      setError('Failed to clear the cache');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Page Cache</h2>
+          <p className="text-sm text-gray-500">
+            {total} search result pages, {formatSize(totalSize)}. Pages that haven't changed since the last run aren't parsed again.
+          </p>
+        </div>
+        {canClear && (
+          <button
+            onClick={() => handleRemove()}
+            disabled={total === 0}
+            className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Trash2 size={16} />
+            Clear cache
+          </button>
+        )}
+      </div>
+      
+      <form onSubmit={handleSearch} className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+          placeholder="Filter by URL"
+        />
+        <button
+          type="submit"
+          className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          <Search size={16} />
+          Filter
+        </button>
+      </form>
+      
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+      
+      {entries.length === 0 ? (
+        <p className="text-center text-gray-500 py-6">No cached pages{filter ? ' match that filter' : ' yet'}.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">URL</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">HTTP</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Size</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last changed</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last checked</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map(entry => (
+                <tr key={entry.url}>
+                  <td className="px-4 py-2">
+                    <div className="truncate max-w-[320px]" title={entry.url}>{entry.url}</div>
+                    {(entry.etag || entry.lastModified) && (
+                      <div className="text-xs text-gray-500 truncate max-w-[320px]">
+                        {entry.etag ? `ETag ${entry.etag}` : `Last-Modified ${entry.lastModified}`}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">{entry.status ?? '—'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{formatSize(entry.size)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    <span title={format(new Date(entry.fetchedAt), 'PPpp')}>
+                      {formatDistanceToNow(new Date(entry.fetchedAt), { addSuffix: true })}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    <span title={format(new Date(entry.checkedAt), 'PPpp')}>
+                      {formatDistanceToNow(new Date(entry.checkedAt), { addSuffix: true })}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    <div className="flex justify-end gap-2">
+                      <a
+                        href={cachedPageUrl(entry.url)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title="View source"
+                        className="text-indigo-600 hover:text-indigo-800"
+                      >
+                        <Code size={18} />
+                      </a>
+                      <a
+                        href={cachedPageUrl(entry.url, true)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title="View rendered (scripts disabled)"
+                        className="text-indigo-600 hover:text-indigo-800"
+                      >
+                        <Eye size={18} />
+                      </a>
+                      {canClear && (
+                        <button
+                          onClick={() => handleRemove(entry.url)}
+                          title="Remove from cache"
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      
+      {entries.length < total && (
+        <div className="mt-4 text-center">
+          <button
+            onClick={handleLoadMore}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PageCache;
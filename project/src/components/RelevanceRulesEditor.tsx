@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { ExcludeAction, RelevanceField, RelevanceRules } from '../types';
+import { DEFAULT_WEIGHTS } from '../../shared/relevance';
+import { X } from 'lucide-react';
+
+interface RelevanceRulesEditorProps {
+  rules: RelevanceRules;
+  onChange: (rules: RelevanceRules) => void;
+  // Keyed like validateRelevance() with the same prefix
+  fieldErrors: Record<string, string>;
+  // Dotted path the rules sit under in fieldErrors, e.g. "relevance" for a site
+  prefix?: string;
+  // Site rules fall back to the global weights and action when left blank
+  inherits?: boolean;
+}
+
+const weightFields: { key: RelevanceField; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'company', label: 'Company' },
+  { key: 'description', label: 'Description' }
+];
+
+const inputClass = (error?: string, extra = '') =>
+  `px-3 py-2 border ${error ? 'border-red-500' : 'border-gray-300'} rounded-md ${extra} focus:outline-none focus:ring-2 focus:ring-indigo-500`;
+
+// Include/exclude keyword lists, field weights and what to do with excluded jobs
+const RelevanceRulesEditor: React.FC<RelevanceRulesEditorProps> = ({ rules, onChange, fieldErrors, prefix, inherits = false }) => {
+  const [includeTerm, setIncludeTerm] = useState('');
+  const [includeWeight, setIncludeWeight] = useState('');
+  const [excludeTerm, setExcludeTerm] = useState('');
+  const error = (path: string) => fieldErrors[prefix ? `${prefix}.${path}` : path];
+
+  const include = rules.include ?? [];
+  const exclude = rules.exclude ?? [];
+
+  const handleAddInclude = () => {
+    if (!includeTerm.trim()) return;
+    const weight = parseFloat(includeWeight);
+    onChange({ ...rules, include: [...include, { term: includeTerm.trim(), ...(isNaN(weight) ? {} : { weight }) }] });
+    setIncludeTerm('');
+    setIncludeWeight('');
+  };
+
+  const handleAddExclude = () => {
+    if (!excludeTerm.trim()) return;
+    onChange({ ...rules, exclude: [...exclude, { term: excludeTerm.trim() }] });
+    setExcludeTerm('');
+  };
+
+  const handleWeightChange = (field: RelevanceField, value: string) => {
+    const weights = { ...rules.weights };
+    if (value === '') {
+      delete weights[field];
+    } else {
+      weights[field] = parseFloat(value);
+    }
+    onChange({ ...rules, weights: Object.keys(weights).length > 0 ? weights : undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Include Keywords</label>
+        <div className="flex gap-2 mb-2">
+          <input
+            type="text"
+            value={includeTerm}
+            onChange={(e) => setIncludeTerm(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddInclude()}
+            className={inputClass(error('include'), 'flex-grow')}
+            placeholder="e.g., sound design, mixing, Pro Tools"
+          />
+          <input
+            type="number"
+            step="any"
+            value={includeWeight}
+            onChange={(e) => setIncludeWeight(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddInclude()}
+            className={inputClass(undefined, 'w-24')}
+            placeholder="Weight 1"
+            title="Multiplies the field weights; negative weights lower the score"
+          />
+          <button
+            onClick={handleAddInclude}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+          >
+            Add
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {include.map((rule, index) => (
+            <div key={index} className="flex items-center bg-green-50 text-green-800 px-3 py-1 rounded-md">
+              <span className="mr-2">
+                {rule.term}
+                {rule.weight != null && rule.weight !== 1 && <span className="text-green-600"> x{rule.weight}</span>}
+              </span>
+              <button
+                onClick={() => onChange({ ...rules, include: include.filter((_, i) => i !== index) })}
+                className="text-gray-500 hover:text-red-500"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+        {error('include') && <p className="mt-1 text-sm text-red-600">{error('include')}</p>}
+      </div>
+      
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Exclude Keywords <span className="font-normal text-gray-500">(matched in the title and company)</span>
+        </label>
+        <div className="flex gap-2 mb-2">
+          <input
+            type="text"
+            value={excludeTerm}
+            onChange={(e) => setExcludeTerm(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddExclude()}
+            className={inputClass(error('exclude'), 'flex-grow')}
+            placeholder="e.g., audio-visual, sales, car audio"
+          />
+          <button
+            onClick={handleAddExclude}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+          >
+            Add
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {exclude.map((rule, index) => (
+            <div key={index} className="flex items-center bg-red-50 text-red-800 px-3 py-1 rounded-md">
+              <span className="mr-2">{rule.term}</span>
+              <button
+                onClick={() => onChange({ ...rules, exclude: exclude.filter((_, i) => i !== index) })}
+                className="text-gray-500 hover:text-red-500"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+        {error('exclude') && <p className="mt-1 text-sm text-red-600">{error('exclude')}</p>}
+      </div>
+      
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {weightFields.map(({ key, label }) => (
+          <div key={key}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{label} Weight</label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={rules.weights?.[key] ?? ''}
+              onChange={(e) => handleWeightChange(key, e.target.value)}
+              className={inputClass(error(`weights.${key}`), 'w-full')}
+              placeholder={inherits ? 'Global' : `${DEFAULT_WEIGHTS[key]} (default)`}
+            />
+            {error(`weights.${key}`) && <p className="mt-1 text-sm text-red-600">{error(`weights.${key}`)}</p>}
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Excluded Jobs</label>
+          <select
+            value={rules.excludeAction ?? ''}
+            onChange={(e) => onChange({ ...rules, excludeAction: (e.target.value || undefined) as ExcludeAction | undefined })}
+            className={inputClass(error('excludeAction'), 'w-full')}
+          >
+            <option value="">{inherits ? 'Same as global' : 'Flag (default)'}</option>
+            <option value="flag">Flag</option>
+            <option value="drop">Drop new ones</option>
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RelevanceRulesEditor;
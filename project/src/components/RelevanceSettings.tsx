@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { RelevanceRules } from '../types';
+import { fetchRelevanceRules, saveRelevanceRules } from '../api';
+import { validateRelevance } from '../../shared/relevance';
+import RelevanceRulesEditor from './RelevanceRulesEditor';
+import { Save } from 'lucide-react';
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+// Keyword rules every site's jobs are scored against
+const RelevanceSettings: React.FC = () => {
+  const [rules, setRules] = useState<RelevanceRules>({});
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRelevanceRules()
+      .then(setRules)
+      .catch(() => setMessage({ text: 'Failed to load relevance rules', isError: true }));
+  }, []);
+
+  const fieldErrors = { ...validateRelevance(rules), ...serverErrors };
+
+  const handleChange = (changed: RelevanceRules) => {
+    setRules(changed);
+    setServerErrors({});
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const { rules: saved, rescored } = await saveRelevanceRules(rules);
+      setRules(saved);
+      setMessage({ text: `Saved. ${rescored} job${rescored === 1 ? '' : 's'} rescored.`, isError: false });
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.data?.fieldErrors) {
+        setServerErrors(err.response.data.fieldErrors);
+      }
+      setMessage({ text: errorMessage(err, 'Failed to save relevance rules'), isError: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-1">Relevance Rules</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Jobs score points for each include keyword found in their title, company or description, times that field's weight.
+        Jobs whose title or company has an exclude keyword are flagged, or not added at all if set to drop.
+        Sites can add their own keywords in their settings.
+      </p>
+      
+      <RelevanceRulesEditor rules={rules} onChange={handleChange} fieldErrors={fieldErrors} />
+      
+      <div className="mt-4 flex items-center justify-end gap-3">
+        {message && (
+          <span className={`text-sm ${message.isError ? 'text-red-600' : 'text-green-700'}`}>{message.text}</span>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving || Object.keys(fieldErrors).length > 0}
+          className="flex items-center gap-1 bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:bg-indigo-300"
+        >
+          <Save size={16} />
+          {saving ? 'Saving...' : 'Save Rules'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RelevanceSettings;
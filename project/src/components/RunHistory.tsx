@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { ScrapeRun, SiteHealth } from '../types';
+import { fetchRuns, fetchSiteHealth } from '../api';
+import { format, formatDistanceStrict, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronRight, Clock, XCircle } from 'lucide-react';
+
+interface RunHistoryProps {
+  // Bumped by the parent to force a reload, e.g. after a scrape
+  refreshToken: number;
+}
+
+const PAGE_SIZE = 20;
+
+const statusBadge = (run: ScrapeRun) => {
+  if (run.status === 'running') {
+    return (
+      <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded">
+        <Clock size={12} /> Running
+      </span>
+    );
+  }
+  if (run.status === 'failed') {
+    return (
+      <span className="inline-flex items-center gap-1 px-2 py-1 bg-red-100 text-red-800 text-xs font-medium rounded">
+        <XCircle size={12} /> Failed
+      </span>
+    );
+  }
+  if (run.errors.length > 0) {
+    return (
+      <span className="inline-flex items-center gap-1 px-2 py-1 bg-yellow-100 text-yellow-800 text-xs font-medium rounded">
+        <AlertTriangle size={12} /> Completed with errors
+      </span>
+    );
+  }
+  return (
+    <span className="inline-flex items-center gap-1 px-2 py-1 bg-green-100 text-green-800 text-xs font-medium rounded">
+      <CheckCircle size={12} /> Completed
+    </span>
+  );
+};
+
+const RunHistory: React.FC<RunHistoryProps> = ({ refreshToken }) => {
+  const [runs, setRuns] = useState<ScrapeRun[]>([]);
+  const [total, setTotal] = useState(0);
+  const [siteHealth, setSiteHealth] = useState<SiteHealth[]>([]);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([fetchRuns(PAGE_SIZE), fetchSiteHealth()]).then(([page, health]) => {
+      setRuns(page.runs);
+      setTotal(page.total);
+      setSiteHealth(health);
+      setLoading(false);
+    });
+  }, [refreshToken]);
+
+  const handleLoadMore = async () => {
+    const page = await fetchRuns(PAGE_SIZE, runs.length);
+    setRuns([...runs, ...page.runs]);
+    setTotal(page.total);
+  };
+
+  const brokenSites = siteHealth.filter(site => site.broken);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {brokenSites.length > 0 && (
+        <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded">
+          <div className="flex">
+            <AlertTriangle size={20} className="text-yellow-500 mr-2 flex-shrink-0" />
+            <div>
+              <p className="font-medium text-yellow-700">Some sites look broken</p>
+              <ul className="mt-1 text-yellow-700 text-sm space-y-1">
+                {brokenSites.map(site => (
+                  <li key={site.name}>
+                    <span className="font-medium">{site.name}</span> returned no jobs in its last {site.emptyRuns} runs
+                    {site.lastError ? ` (last error: ${site.lastError})` : '. Its selectors may need updating.'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-6">Run History</h2>
+
+        {runs.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">No scrape runs yet. Press "Scrape Now" to start one.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3"></th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Started</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Found</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">New</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Errors</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Blocked</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {runs.map(run => (
+                  <React.Fragment key={run.id}>
+                    <tr
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpandedRunId(expandedRunId === run.id ? null : run.id)}
+                    >
+                      <td className="px-4 py-3 text-gray-400">
+                        {expandedRunId === run.id ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">
+                        <span title={format(new Date(run.startedAt), 'PPpp')}>
+                          {formatDistanceToNow(new Date(run.startedAt), { addSuffix: true })}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {run.finishedAt ? formatDistanceStrict(new Date(run.finishedAt), new Date(run.startedAt)) : '—'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">{statusBadge(run)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">{run.jobsFound}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">{run.newJobs}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">{run.errors.length}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">{run.blockedRequests ?? 0}</td>
+                    </tr>
+                    {expandedRunId === run.id && (
+                      <tr>
+                        <td colSpan={8} className="px-4 py-4 bg-gray-50">
+                          <div className="space-y-4">
+                            {run.sites.map((site, index) => (
+                              <div key={index}>
+                                <p className="text-sm font-medium text-gray-800 mb-1">
+                                  {site.name}
+                                  <span className="ml-2 text-gray-500 font-normal">
+                                    {site.jobsFound} found, {site.newJobs} new
+                                    {site.excludedJobs ? `, ${site.excludedJobs} excluded` : ''}
+                                    {site.detailsFetched + site.detailsFailed > 0 &&
+                                      `, ${site.detailsFetched} detail pages fetched${site.detailsFailed ? ` (${site.detailsFailed} failed)` : ''}`}
+                                  </span>
+                                  {(site.blocked ?? 0) > 0 && (
+                                    <span className="ml-2 px-2 py-0.5 bg-orange-100 text-orange-800 text-xs font-medium rounded">
+                                      Blocked {site.blocked}x
+                                    </span>
+                                  )}
+                                </p>
+                                <table className="min-w-full text-sm">
+                                  <thead>
+                                    <tr className="text-left text-xs text-gray-500 uppercase">
+                                      <th className="py-1 pr-4 font-medium">Term</th>
+                                      <th className="py-1 pr-4 font-medium">Jobs</th>
+                                      <th className="py-1 pr-4 font-medium">Pages</th>
+                                      <th className="py-1 pr-4 font-medium">HTTP</th>
+                                      <th className="py-1 pr-4 font-medium">Blocked</th>
+                                      <th className="py-1 font-medium">Error</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {site.terms.map((term, termIndex) => (
+                                      <tr key={termIndex} className={term.error ? 'text-red-700' : 'text-gray-700'}>
+                                        <td className="py-1 pr-4">{term.term}</td>
+                                        <td className="py-1 pr-4">{term.jobsFound}</td>
+                                        <td className="py-1 pr-4">
+                                          {term.pages}
+                                          {(term.unchangedPages ?? 0) > 0 && (
+                                            <span className="ml-1 text-gray-500">({term.unchangedPages} unchanged)</span>
+                                          )}
+                                        </td>
+                                        <td className="py-1 pr-4">{term.httpStatus ?? '—'}</td>
+                                        <td className="py-1 pr-4">{term.blocked || ''}</td>
+                                        <td className="py-1">{term.error || ''}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              </div>
+                            ))}
+                            {run.blocks && run.blocks.length > 0 && (
+                              <div>
+                                <p className="text-sm font-medium text-gray-800 mb-1">
+                                  Blocked responses ({run.blockedRequests ?? run.blocks.length})
+                                </p>
+                                <ul className="text-sm text-orange-800 space-y-0.5">
+                                  {run.blocks.map((block, index) => (
+                                    <li key={index} className="truncate">
+                                      {format(new Date(block.at), 'pp')} · {block.status} from {block.site}
+                                      {block.term ? ` "${block.term}"` : ' (detail page)'} ·{' '}
+                                      {block.retrying ? `waited ${Math.round(block.waitMs / 1000)}s and retried` : 'gave up'}
+                                      <span className="ml-1 text-gray-500">{block.url}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                            {run.errors.filter(error => !error.site).map((error, index) => (
+                              <p key={index} className="text-sm text-red-700">{error.message}</p>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {runs.length < total && (
+          <div className="mt-4 text-center">
+            <button
+              onClick={handleLoadMore}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Load more
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunHistory;
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { NotificationChannel, SavedSearch, SavedSearchFilters, SavedSearchNotify } from '../types';
+import { fetchSavedSearches, addSavedSearch, updateSavedSearch, deleteSavedSearch, markSavedSearchRead, testNotification } from '../api';
+import { Bookmark, BookmarkPlus, Edit, X, Save, Send } from 'lucide-react';
+
+interface SavedSearchesProps {
+  // Filters currently applied in the job list, saved with new searches
+  currentFilters: SavedSearchFilters;
+  activeId: string | null;
+  onApply: (search: SavedSearch) => void;
+  // Bumped by the parent to reload unread counts, e.g. after a scrape
+  refreshToken: number;
+}
+
+interface SearchForm {
+  name: string;
+  notify: SavedSearchNotify;
+}
+
+const emptyForm: SearchForm = { name: '', notify: { inbox: true } };
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+const SavedSearches: React.FC<SavedSearchesProps> = ({ currentFilters, activeId, onApply, refreshToken }) => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  // null when the form is closed, 'new' when saving the current filters
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<SearchForm>(emptyForm);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+    fetchSavedSearches().then(setSearches);
+  }, [refreshToken]);
+
+  const replaceSearch = (updated: SavedSearch) =>
+    setSearches(prev => prev.map(search => (search.id === updated.id ? updated : search)));
+
+  const handleApply = async (search: SavedSearch) => {
+    onApply(search);
+    if (search.unreadCount > 0) {
+      const updated = await markSavedSearchRead(search.id);
+      if (updated) replaceSearch(updated);
+    }
+  };
+
+  const openForm = (search?: SavedSearch) => {
+    setForm(search ? { name: search.name, notify: { inbox: true, ...search.notify } } : emptyForm);
+    setEditing(search ? search.id : 'new');
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      if (editing === 'new') {
+        const created = await addSavedSearch({ ...form, filters: currentFilters });
+        setSearches(prev => [...prev, created]);
+      } else if (editing) {
+        const existing = searches.find(search => search.id === editing);
+        replaceSearch(await updateSavedSearch(editing, { ...form, filters: existing?.filters || currentFilters }));
+      }
+      setEditing(null);
+    } catch (err) {
+      setMessage({ text: errorMessage(err, 'Failed to save search'), isError: true });
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!window.confirm(`Delete the saved search "${search.name}"?`)) return;
+    
+    try {
+      await deleteSavedSearch(search.id);
+      setSearches(prev => prev.filter(other => other.id !== search.id));
+    } catch (err) {
+      setMessage({ text: errorMessage(err, 'Failed to delete search'), isError: true });
+    }
+  };
+
+  const handleTest = async (channel: NotificationChannel) => {
+    setMessage(null);
+    try {
+      await testNotification(channel, form.notify);
+      setMessage({ text: `Test ${channel} notification sent`, isError: false });
+    } catch (err) {
+      setMessage({ text: errorMessage(err, 'Test notification failed'), isError: true });
+    }
+  };
+
+  const setNotify = (changes: Partial<SavedSearchNotify>) =>
+    setForm({ ...form, notify: { ...form.notify, ...changes } });
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {searches.map(search => (
+          <div
+            key={search.id}
+            className={`flex items-center rounded-full border text-sm ${
+              search.id === activeId ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-gray-300 bg-white text-gray-700'
+            }`}
+          >
+            <button onClick={() => handleApply(search)} className="flex items-center gap-1 pl-3 pr-2 py-1">
+              <Bookmark size={14} />
+              {search.name}
+              {search.unreadCount > 0 && (
+                <span className="ml-1 px-1.5 bg-indigo-600 text-white text-xs font-semibold rounded-full">
+                  {search.unreadCount}
+                </span>
+              )}
+            </button>
+            <button onClick={() => openForm(search)} title="Edit" className="px-1 text-gray-400 hover:text-indigo-600">
+              <Edit size={14} />
+            </button>
+            <button onClick={() => handleDelete(search)} title="Delete" className="pl-1 pr-2 text-gray-400 hover:text-red-600">
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+        
+        {editing === null && (
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-1 px-3 py-1 text-sm text-indigo-600 border border-dashed border-indigo-300 rounded-full hover:bg-indigo-50"
+          >
+            <BookmarkPlus size={14} />
+            Save this search
+          </button>
+        )}
+      </div>
+      
+      {editing !== null && (
+        <div className="mt-3 p-4 bg-white rounded-lg shadow">
+          <h4 className="text-md font-medium mb-3">
+            {editing === 'new' ? 'Save current filters' : 'Edit saved search'}
+          </h4>
+          
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                placeholder="e.g., remote sound design"
+              />
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Webhook URL</label>
+              <div className="flex gap-1">
+                <input
+                  type="text"
+                  value={form.notify.webhookUrl || ''}
+                  onChange={(e) => setNotify({ webhookUrl: e.target.value || undefined })}
+                  className="flex-grow min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  placeholder="Optional"
+                />
+                <button
+                  onClick={() => handleTest('webhook')}
+                  disabled={!form.notify.webhookUrl}
+                  title="Send a test webhook"
+                  className="px-2 text-indigo-600 border border-gray-300 rounded-md hover:bg-gray-50 disabled:text-gray-300"
+                >
+                  <Send size={16} />
+                </button>
+              </div>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+              <div className="flex gap-1">
+                <input
+                  type="email"
+                  value={form.notify.email || ''}
+                  onChange={(e) => setNotify({ email: e.target.value || undefined })}
+                  className="flex-grow min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  placeholder="Optional"
+                />
+                <button
+                  onClick={() => handleTest('email')}
+                  disabled={!form.notify.email}
+                  title="Send a test email"
+                  className="px-2 text-indigo-600 border border-gray-300 rounded-md hover:bg-gray-50 disabled:text-gray-300"
+                >
+                  <Send size={16} />
+                </button>
+              </div>
+            </div>
+          </div>
+          
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700 flex-grow">
+              <input
+                type="checkbox"
+                checked={form.notify.inbox !== false}
+                onChange={(e) => setNotify({ inbox: e.target.checked })}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Show new matches in the notification inbox
+            </label>
+            <button
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!form.name.trim()}
+              className="flex items-center justify-center gap-1 bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:bg-indigo-300"
+            >
+              <Save size={16} />
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+      
+      {message && (
+        <p className={`mt-2 text-sm ${message.isError ? 'text-red-700' : 'text-green-700'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearches;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ScrapeRun } from '../types';
+import { CheckCircle, AlertTriangle, X } from 'lucide-react';
+
+interface ScrapeProgressProps {
+  run: ScrapeRun;
+  onDismiss: () => void;
+}
+
+const ScrapeProgress: React.FC<ScrapeProgressProps> = ({ run, onDismiss }) => {
+  const percent = run.totalSteps > 0 ? Math.round((run.completedSteps / run.totalSteps) * 100) : 100;
+  const isRunning = run.status === 'running';
+  const hasErrors = run.errors.length > 0;
+
+  return (
+    <div className="bg-indigo-800 text-indigo-100">
+      <div className="container mx-auto px-4 py-3">
+        <div className="flex justify-between items-center text-sm mb-2">
+          <div className="flex items-center gap-2 min-w-0">
+            {!isRunning && (run.status === 'failed' || hasErrors
+              ? <AlertTriangle size={16} className="text-yellow-300 flex-shrink-0" />
+              : <CheckCircle size={16} className="text-green-300 flex-shrink-0" />
+            )}
+            <span className="truncate">
+              {isRunning
+                ? run.current
+                  ? `Scraping ${run.current.site} for "${run.current.term}"`
+                  : 'Starting scrape...'
+                : run.status === 'failed'
+                  ? 'Scrape failed'
+                  : 'Scrape complete'}
+            </span>
+          </div>
+          
+          <div className="flex items-center gap-3 flex-shrink-0">
+            <span>
+              {run.completedSteps}/{run.totalSteps} searches · {run.jobsFound} found · {run.newJobs} new
+              {hasErrors && ` · ${run.errors.length} error${run.errors.length === 1 ? '' : 's'}`}
+            </span>
+            {!isRunning && (
+              <button onClick={onDismiss} className="text-indigo-200 hover:text-white" aria-label="Dismiss">
+                <X size={16} />
+              </button>
+            )}
+          </div>
+        </div>
+        
+        <div className="h-2 bg-indigo-900 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all duration-300 ${
+              run.status === 'failed' ? 'bg-red-400' : hasErrors ? 'bg-yellow-300' : 'bg-green-300'
+            }`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+        
+        {!isRunning && hasErrors && (
+          <ul className="mt-2 text-xs text-indigo-200 space-y-0.5">
+            {run.errors.map((error, index) => (
+              <li key={index}>
+                {error.site ? `${error.site}${error.term ? ` / "${error.term}"` : ''}: ` : ''}{error.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScrapeProgress;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { SelectorTestResult, Site } from '../types';
+import { testSiteSelectors } from '../api';
+import { validateSite } from '../../shared/siteSchema';
+import { FlaskConical, CheckCircle, XCircle } from 'lucide-react';
+
+interface SelectorTesterProps {
+  site: Site;
+}
+
+const SAMPLE_LIMIT = 5;
+
+// Drafts can be tested before they are named, and with a one-off search term
+const UNTESTED_FIELDS = ['name', 'searchTerms', 'schedule'];
+
+// Whether the server will accept the site's fetch and extraction config
+const isTestable = (site: Site) =>
+  Object.keys(validateSite(site)).every(field => UNTESTED_FIELDS.includes(field));
+
+const SelectorTester: React.FC<SelectorTesterProps> = ({ site }) => {
+  const [term, setTerm] = useState('');
+  const [result, setResult] = useState<SelectorTestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const selectedTerm = site.searchTerms.includes(term) ? term : site.searchTerms[0];
+  // Feeds and APIs can be fetched without a search term
+  const canTest = Boolean(isTestable(site) && (selectedTerm || site.type === 'json' || site.type === 'rss'));
+
+  const handleTest = async () => {
+    setTesting(true);
+    setError(null);
+    setResult(null);
+    
+    try {
+      setResult(await testSiteSelectors(site, selectedTerm, SAMPLE_LIMIT));
+    } catch (err) {
+      setError(axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Selector test failed');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <h4 className="text-md font-medium flex-grow">Test Selectors</h4>
+        <select
+          value={selectedTerm || ''}
+          onChange={(e) => setTerm(e.target.value)}
+          disabled={site.searchTerms.length === 0}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {site.searchTerms.length === 0 && (
+            <option value="">{site.type === 'json' || site.type === 'rss' ? 'No search term' : 'Add a search term first'}</option>
+          )}
+          {site.searchTerms.map(searchTerm => (
+            <option key={searchTerm} value={searchTerm}>{searchTerm}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleTest}
+          disabled={!canTest || testing}
+          className="flex items-center justify-center gap-1 bg-white border border-indigo-600 text-indigo-600 px-4 py-2 rounded-md hover:bg-indigo-50 transition-colors disabled:border-gray-300 disabled:text-gray-400"
+        >
+          <FlaskConical size={16} className={testing ? 'animate-pulse' : ''} />
+          {testing ? 'Testing...' : 'Test selectors'}
+        </button>
+      </div>
+      
+      {error && (
+        <p className="mt-3 text-sm text-red-700">{error}</p>
+      )}
+      
+      {result && (
+        <div className="mt-3 text-sm">
+          <p className="text-gray-600 mb-2 truncate">
+            HTTP {result.httpStatus} from <span className="font-mono">{result.url}</span>
+          </p>
+          
+          <div className="flex flex-wrap gap-2 mb-3">
+            {Object.entries(result.selectors).map(([key, match]) => (
+              <span
+                key={key}
+                title={match.error || undefined}
+                className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium ${
+                  match.error || match.matches === 0 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                }`}
+              >
+                {match.error || match.matches === 0 ? <XCircle size={12} /> : <CheckCircle size={12} />}
+                {key.replace(/([A-Z])/g, ' $1').trim()}: {match.error ? 'invalid' : match.matches}
+              </span>
+            ))}
+          </div>
+          
+          {result.samples.length === 0 ? (
+            <p className="text-gray-500">
+              {Object.values(result.selectors).some(match => match.error)
+                ? 'Fix the errors above to see sample listings.'
+                : site.type === 'json' || site.type === 'rss' ? 'No listings found in the response.' : 'No job containers matched.'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 bg-white rounded">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="px-3 py-2 font-medium">Title</th>
+                    <th className="px-3 py-2 font-medium">Company</th>
+                    <th className="px-3 py-2 font-medium">Location</th>
+                    <th className="px-3 py-2 font-medium">Link</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {result.samples.map((sample, index) => (
+                    <tr key={index}>
+                      <td className="px-3 py-2">{sample.title || <span className="text-red-500">—</span>}</td>
+                      <td className="px-3 py-2">{sample.company || <span className="text-red-500">—</span>}</td>
+                      <td className="px-3 py-2">{sample.location || <span className="text-red-500">—</span>}</td>
+                      <td className="px-3 py-2 max-w-[200px] truncate">
+                        {sample.link ? (
+                          <a href={sample.link} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:text-indigo-800">
+                            {sample.link}
+                          </a>
+                        ) : <span className="text-red-500">—</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SelectorTester;
@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { SiteImportAction, SiteImportEntry, SiteImportResolution, SitePreset } from '../types';
+import { fetchSitePresets, fetchSitePreset, previewSiteImport, importSites } from '../api';
+import { Upload, X } from 'lucide-react';
+
+interface SiteImportProps {
+  onClose: () => void;
+  // Called after sites were added or replaced so the list can be reloaded
+  onImported: () => Promise<void>;
+}
+
+const statusBadges: Record<SiteImportEntry['status'], { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-100 text-green-800' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-700' },
+  conflict: { label: 'Name conflict', className: 'bg-yellow-100 text-yellow-800' }
+};
+
+// Nothing is overwritten unless asked for
+const defaultResolution = (entry: SiteImportEntry): SiteImportResolution =>
+  ({ action: entry.status === 'new' ? 'add' : 'skip' });
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+// Per-site problems reported by the server for invalid bundles or choices
+const errorDetails = (err: unknown): string[] =>
+  axios.isAxiosError(err) && Array.isArray(err.response?.data?.errors) ? err.response?.data?.errors : [];
+
+const SiteImport: React.FC<SiteImportProps> = ({ onClose, onImported }) => {
+  const [presets, setPresets] = useState<SitePreset[]>([]);
+  const [bundle, setBundle] = useState<unknown>(null);
+  const [entries, setEntries] = useState<SiteImportEntry[]>([]);
+  const [resolutions, setResolutions] = useState<SiteImportResolution[]>([]);
+  const [error, setError] = useState<{ message: string; details: string[] } | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    fetchSitePresets().then(setPresets);
+  }, []);
+
+  const loadBundle = async (loaded: unknown) => {
+    setError(null);
+    setResult(null);
+    setEntries([]);
+    try {
+      const preview = await previewSiteImport(loaded);
+      setBundle(loaded);
+      setEntries(preview);
+      setResolutions(preview.map(defaultResolution));
+    } catch (err) {
+      setBundle(null);
+      setError({ message: errorMessage(err, 'Failed to read bundle'), details: errorDetails(err) });
+    }
+  };
+
+  const handlePreset = async (id: string) => {
+    if (!id) return;
+    try {
+      loadBundle(await fetchSitePreset(id));
+    } catch (err) {
+      setError({ message: errorMessage(err, 'Failed to load preset'), details: [] });
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setError({ message: `${file.name} is not valid JSON`, details: [] });
+      return;
+    }
+    loadBundle(parsed);
+  };
+
+  const setResolution = (index: number, changes: Partial<SiteImportResolution>) =>
+    setResolutions(prev => prev.map((resolution, i) => (i === index ? { ...resolution, ...changes } : resolution)));
+
+  const handleAction = (index: number, action: SiteImportAction) => {
+    const entry = entries[index];
+    // Adding a site whose name is taken needs a new name
+    const name = action === 'add' && entry.status !== 'new' ? `${entry.site.name} (imported)` : undefined;
+    setResolution(index, { action, name });
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    try {
+      const counts = await importSites(bundle, resolutions);
+      setResult(`Imported ${counts.added} new, replaced ${counts.replaced}, skipped ${counts.skipped}.`);
+      setBundle(null);
+      setEntries([]);
+      await onImported();
+    } catch (err) {
+      setError({ message: errorMessage(err, 'Import failed'), details: errorDetails(err) });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const pending = resolutions.filter(resolution => resolution.action !== 'skip').length;
+
+  return (
+    <div className="mb-8 p-4 border border-gray-200 rounded-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium">Import Sites</h3>
+        <button onClick={onClose} title="Close" className="text-gray-400 hover:text-gray-600">
+          <X size={18} />
+        </button>
+      </div>
+      
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4 text-sm">
+        <select
+          defaultValue=""
+          onChange={(e) => handlePreset(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">Choose a preset...</option>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id} title={preset.description}>
+              {preset.name} ({preset.siteCount} sites)
+            </option>
+          ))}
+        </select>
+        <span className="text-gray-500">or</span>
+        <label className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 cursor-pointer">
+          <Upload size={16} />
+          Upload a bundle (.json)
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </label>
+      </div>
+      
+      {error && (
+        <div className="mb-4 bg-red-50 border-l-4 border-red-400 p-3 text-sm text-red-700">
+          <p className="font-medium">{error.message}</p>
+          {error.details.length > 0 && (
+            <ul className="mt-1 list-disc list-inside">
+              {error.details.map((detail, i) => <li key={i}>{detail}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+      
+      {result && <p className="mb-4 text-sm text-green-700">{result}</p>}
+      
+      {entries.length > 0 && (
+        <>
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Site</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map((entry, index) => (
+                  <tr key={index}>
+                    <td className="px-4 py-2">
+                      <div className="font-medium">{entry.site.name}</div>
+                      <div className="text-gray-500 truncate max-w-[240px]">{entry.site.url}</div>
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded ${statusBadges[entry.status].className}`}>
+                        {statusBadges[entry.status].label}
+                      </span>
+                      {entry.changes.length > 0 && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          Differs in <span className="font-mono">{entry.changes.join(', ')}</span>
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex flex-col gap-1">
+                        <select
+                          value={resolutions[index]?.action}
+                          onChange={(e) => handleAction(index, e.target.value as SiteImportAction)}
+                          className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                          {entry.status === 'new' ? (
+                            <option value="add">Add</option>
+                          ) : (
+                            <>
+                              <option value="replace">Replace existing</option>
+                              <option value="add">Add under a new name</option>
+                            </>
+                          )}
+                          <option value="skip">Skip</option>
+                        </select>
+                        {entry.status !== 'new' && resolutions[index]?.action === 'add' && (
+                          <input
+                            type="text"
+                            value={resolutions[index].name || ''}
+                            onChange={(e) => setResolution(index, { name: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            placeholder="New site name"
+                          />
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={importing || pending === 0}
+              className="flex items-center gap-1 bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:bg-indigo-300"
+            >
+              <Upload size={16} />
+              {importing ? 'Importing...' : `Import ${pending} site${pending === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SiteImport;
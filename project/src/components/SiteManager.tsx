@@ -1,16 +1,50 @@
-import React, { useState } from 'react';
-import { Site } from '../types';
-import { Plus, Edit, Trash2, Save, X, AlertCircle, Play } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { DetailSelectors, HtmlSite, JsonFieldPaths, JsonSourceConfig, RenderMode, Site, SiteFieldErrors, SiteHealth, SitePagination, SitePoliteness, SiteRender, SiteSchedule, SiteType } from '../types';
+import { fetchSchedules, siteExportUrl, SiteConflictError, SiteValidationError } from '../api';
+import { REQUIRED_SELECTORS, validateSite } from '../../shared/siteSchema';
+import SelectorTester from './SelectorTester';
+import SiteImport from './SiteImport';
+import RelevanceRulesEditor from './RelevanceRulesEditor';
+import { formatDistanceToNow } from 'date-fns';
+import { Plus, Edit, Trash2, Save, X, AlertCircle, AlertTriangle, Play, Pause, Download, Upload } from 'lucide-react';
 
 interface SiteManagerProps {
   sites: Site[];
+  siteHealth: SiteHealth[];
   onAddSite: (site: Site) => Promise<void>;
-  onUpdateSite: (index: number, site: Site) => Promise<void>;
-  onDeleteSite: (index: number) => Promise<void>;
+  onUpdateSite: (id: string, site: Site) => Promise<void>;
+  onDeleteSite: (site: Site) => Promise<void>;
+  onSitesImported: () => Promise<void>;
   serverRunning: boolean;
   onStartServer: () => void;
+  // Only admins can add, change or remove sites; everyone else just sees them
+  canEdit: boolean;
 }
 
+const detailSelectorFields: { key: keyof DetailSelectors; label: string; placeholder: string }[] = [
+  { key: 'description', label: 'Description', placeholder: 'e.g., #jobDescriptionText' },
+  { key: 'salary', label: 'Salary', placeholder: 'e.g., #salaryInfoAndJobType .salary' },
+  { key: 'employmentType', label: 'Employment Type', placeholder: 'e.g., .jobsearch-JobMetadataHeader-item' },
+  { key: 'postedDate', label: 'Posted Date', placeholder: 'e.g., time[datetime]' }
+];
+
+const siteTypes: { value: SiteType; label: string; urlPlaceholder: string }[] = [
+  { value: 'html', label: 'HTML page (CSS selectors)', urlPlaceholder: 'e.g., https://www.indeed.com/jobs?q=' },
+  { value: 'json', label: 'JSON API (field paths)', urlPlaceholder: 'e.g., https://api.example.com/jobs?search=' },
+  { value: 'rss', label: 'RSS / Atom feed', urlPlaceholder: 'e.g., https://example.com/jobs/feed.xml' }
+];
+
+const jsonFieldInputs: { key: keyof JsonFieldPaths; label: string; placeholder: string }[] = [
+  { key: 'title', label: 'Title (required)', placeholder: 'e.g., title' },
+  { key: 'link', label: 'Link (required)', placeholder: 'e.g., url' },
+  { key: 'company', label: 'Company', placeholder: 'e.g., company.name' },
+  { key: 'location', label: 'Location', placeholder: 'e.g., locations[0].name' },
+  { key: 'description', label: 'Description', placeholder: 'e.g., description' },
+  { key: 'salary', label: 'Salary', placeholder: 'e.g., compensation.text' },
+  { key: 'employmentType', label: 'Employment Type', placeholder: 'e.g., employment_type' },
+  { key: 'postedDate', label: 'Posted Date', placeholder: 'e.g., published_at' }
+];
+
 const defaultSelectors = {
   jobContainer: '',
   title: '',
@@ -19,25 +53,85 @@ const defaultSelectors = {
   link: ''
 };
 
-const emptySite: Site = {
+// Common schedules offered in the form; any cron expression can be typed in
+const schedulePresets = [
+  { label: 'Hourly', value: '0 * * * *' },
+  { label: 'Every 6 hours', value: '0 */6 * * *' },
+  { label: 'Daily at midnight', value: '0 0 * * *' },
+  { label: 'Weekly (Monday)', value: '0 0 * * 1' }
+];
+
+// The form keeps the config for every type, so switching types doesn't lose edits
+type SiteDraft = Omit<HtmlSite, 'type'> & { type: SiteType; json: JsonSourceConfig };
+
+const emptySite: SiteDraft = {
+  type: 'html',
   name: '',
   url: '',
   searchTerms: [],
-  selectors: { ...defaultSelectors }
+  selectors: { ...defaultSelectors },
+  json: { itemsPath: '', fields: { title: '', link: '' } }
+};
+
+const toDraft = (site: Site): SiteDraft => ({ ...emptySite, ...site, type: site.type || 'html' });
+
+// Keep only the config for the selected type
+const toSite = ({ type, selectors, json, render, ...base }: SiteDraft): Site => {
+  switch (type) {
+    case 'json':
+      return { ...base, type, json };
+    case 'rss':
+      return { ...base, type };
+    default:
+      return { ...base, type: 'html', selectors, ...(render ? { render } : {}) };
+  }
 };
 
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="mt-1 text-sm text-red-600">{message}</p> : null;
+
 const SiteManager: React.FC<SiteManagerProps> = ({ 
   sites, 
+  siteHealth,
   onAddSite, 
   onUpdateSite, 
   onDeleteSite,
+  onSitesImported,
   serverRunning,
-  onStartServer
+  onStartServer,
+  canEdit
 }) => {
   const [isAdding, setIsAdding] = useState(false);
-  const [editingIndex, setEditingIndex] = useState<number | null>(null);
-  const [newSite, setNewSite] = useState<Site>({ ...emptySite });
+  const [isImporting, setIsImporting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newSite, setNewSite] = useState<SiteDraft>({ ...emptySite });
+  // Problems are only shown once the user has tried to save
+  const [showErrors, setShowErrors] = useState(false);
+  // Errors the server reported for the last save, cleared on the next edit
+  const [serverErrors, setServerErrors] = useState<SiteFieldErrors>({});
+  // Why the last save failed, when it wasn't a field error
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [searchTermInput, setSearchTermInput] = useState('');
+  const [schedules, setSchedules] = useState<SiteSchedule[]>([]);
+
+  useEffect(() => {
+    if (serverRunning) {
+      fetchSchedules().then(setSchedules);
+    }
+  }, [sites, serverRunning]);
+
+  useEffect(() => {
+    setServerErrors({});
+  }, [newSite]);
+
+  const fieldErrors: SiteFieldErrors = showErrors ? { ...validateSite(toSite(newSite)), ...serverErrors } : {};
+  const errorCount = Object.keys(fieldErrors).length;
+
+  // Inputs with a validation error get a red border
+  const fieldClass = (field: string, extra = '') =>
+    `w-full px-3 py-2 border ${fieldErrors[field] ? 'border-red-500' : 'border-gray-300'} rounded-md ${extra} focus:outline-none focus:ring-2 focus:ring-indigo-500`;
+
+  const schedulesById = new Map<string | undefined, SiteSchedule>(schedules.map(schedule => [schedule.siteId, schedule]));
 
   const handleAddSearchTerm = () => {
     if (searchTermInput.trim()) {
@@ -66,27 +160,120 @@ const SiteManager: React.FC<SiteManagerProps> = ({
     });
   };
 
+  const handleDetailSelectorChange = (key: keyof DetailSelectors, value: string) => {
+    setNewSite({
+      ...newSite,
+      selectors: {
+        ...newSite.selectors,
+        detail: {
+          ...newSite.selectors.detail,
+          [key]: value || undefined
+        }
+      }
+    });
+  };
+
+  const handleJsonChange = (changes: Partial<JsonSourceConfig>) => {
+    setNewSite({
+      ...newSite,
+      json: {
+        ...newSite.json,
+        ...changes
+      }
+    });
+  };
+
+  const handleJsonFieldChange = (key: keyof JsonFieldPaths, value: string) => {
+    handleJsonChange({
+      fields: {
+        ...newSite.json.fields,
+        [key]: key === 'title' || key === 'link' ? value : value || undefined
+      }
+    });
+  };
+
+  const handlePaginationChange = (changes: Partial<SitePagination>) => {
+    setNewSite({
+      ...newSite,
+      pagination: {
+        maxPages: 1,
+        ...newSite.pagination,
+        ...changes
+      }
+    });
+  };
+
+  const handleRenderChange = (changes: Partial<SiteRender>) => {
+    setNewSite({
+      ...newSite,
+      render: {
+        ...newSite.render,
+        ...changes
+      }
+    });
+  };
+
+  const handlePolitenessChange = (changes: Partial<SitePoliteness>) => {
+    setNewSite({
+      ...newSite,
+      politeness: {
+        ...newSite.politeness,
+        ...changes
+      }
+    });
+  };
+
   const handleSubmit = async () => {
-    if (editingIndex !== null) {
-      await onUpdateSite(editingIndex, newSite);
-      setEditingIndex(null);
-    } else {
-      await onAddSite(newSite);
+    const site = toSite(newSite);
+    setShowErrors(true);
+    setSaveError(null);
+    if (Object.keys(validateSite(site)).length > 0) return;
+    
+    // On failure the form stays open so no edits are lost
+    try {
+      if (editingId !== null) {
+        await onUpdateSite(editingId, site);
+      } else {
+        await onAddSite(site);
+      }
+    } catch (err) {
+      if (err instanceof SiteValidationError) {
+        setServerErrors(err.fieldErrors);
+      } else if (err instanceof SiteConflictError) {
+        // Saving again replaces the other change with these edits
+        setNewSite({ ...newSite, version: err.site.version });
+        setSaveError('Someone else changed this site. Save again to replace their changes with yours, or cancel to keep theirs.');
+      } else {
+        setSaveError('Not saved. Your edits are kept, so you can try again.');
+      }
+      return;
+    }
+    handleCancel();
+  };
+
+  const handleToggleEnabled = async (site: Site) => {
+    if (!site.id) return;
+    try {
+      await onUpdateSite(site.id, { ...site, enabled: site.enabled === false });
+    } catch {
+      // The app shows why it failed
     }
-    setNewSite({ ...emptySite });
-    setIsAdding(false);
   };
 
-  const handleEdit = (index: number) => {
-    setNewSite({ ...sites[index] });
-    setEditingIndex(index);
+  const handleEdit = (site: Site) => {
+    setNewSite(toDraft(site));
+    setEditingId(site.id ?? null);
     setIsAdding(true);
+    setShowErrors(false);
+    setSaveError(null);
   };
 
   const handleCancel = () => {
     setNewSite({ ...emptySite });
-    setEditingIndex(null);
+    setEditingId(null);
     setIsAdding(false);
+    setShowErrors(false);
+    setSaveError(null);
   };
 
   if (!serverRunning && sites.length === 0) {
@@ -113,14 +300,38 @@ const SiteManager: React.FC<SiteManagerProps> = ({
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-xl font-semibold text-gray-800">Manage Scraping Sites</h2>
         {!isAdding && (
-          <button
-            onClick={() => setIsAdding(true)}
-            disabled={!serverRunning}
-            className="flex items-center gap-1 bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:bg-indigo-300"
-          >
-            <Plus size={16} />
-            Add Site
-          </button>
+          <div className="flex gap-2">
+            {serverRunning && sites.length > 0 && (
+              <a
+                href={siteExportUrl()}
+                download
+                className="flex items-center gap-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                <Download size={16} />
+                Export All
+              </a>
+            )}
+            {canEdit && (
+              <>
+                <button
+                  onClick={() => setIsImporting(true)}
+                  disabled={!serverRunning || isImporting}
+                  className="flex items-center gap-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors disabled:text-gray-400"
+                >
+                  <Upload size={16} />
+                  Import
+                </button>
+                <button
+                  onClick={() => setIsAdding(true)}
+                  disabled={!serverRunning}
+                  className="flex items-center gap-1 bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:bg-indigo-300"
+                >
+                  <Plus size={16} />
+                  Add Site
+                </button>
+              </>
+            )}
+          </div>
         )}
       </div>
 
@@ -145,10 +356,20 @@ const SiteManager: React.FC<SiteManagerProps> = ({
         </div>
       )}
 
+      {!canEdit && (
+        <p className="mb-6 text-sm text-gray-600">
+          Only admins can add, change or remove sites. Ask one if a board is missing or broken.
+        </p>
+      )}
+
+      {isImporting && serverRunning && !isAdding && (
+        <SiteImport onClose={() => setIsImporting(false)} onImported={onSitesImported} />
+      )}
+
       {isAdding && (
         <div className="mb-8 p-4 border border-gray-200 rounded-lg">
           <h3 className="text-lg font-medium mb-4">
-            {editingIndex !== null ? 'Edit Site' : 'Add New Site'}
+            {editingId !== null ? 'Edit Site' : 'Add New Site'}
           </h3>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
@@ -158,9 +379,10 @@ const SiteManager: React.FC<SiteManagerProps> = ({
                 type="text"
                 value={newSite.name}
                 onChange={(e) => setNewSite({ ...newSite, name: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                className={fieldClass('name')}
                 placeholder="e.g., Indeed, LinkedIn"
               />
+              <FieldError message={fieldErrors.name} />
             </div>
             
             <div>
@@ -169,20 +391,37 @@ const SiteManager: React.FC<SiteManagerProps> = ({
                 type="text"
                 value={newSite.url}
                 onChange={(e) => setNewSite({ ...newSite, url: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                placeholder="e.g., https://www.indeed.com/jobs?q="
+                className={fieldClass('url')}
+                placeholder={siteTypes.find(siteType => siteType.value === newSite.type)?.urlPlaceholder}
               />
+              <FieldError message={fieldErrors.url} />
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Source Type</label>
+              <select
+                value={newSite.type}
+                onChange={(e) => setNewSite({ ...newSite, type: e.target.value as SiteType })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {siteTypes.map(siteType => (
+                  <option key={siteType.value} value={siteType.value}>{siteType.label}</option>
+                ))}
+              </select>
             </div>
           </div>
           
           <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700 mb-1">Search Terms</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Search Terms
+              {newSite.type !== 'html' && <span className="font-normal text-gray-500"> (optional; without any, the URL is fetched as is)</span>}
+            </label>
             <div className="flex gap-2 mb-2">
               <input
                 type="text"
                 value={searchTermInput}
                 onChange={(e) => setSearchTermInput(e.target.value)}
-                className="flex-grow px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                className={`flex-grow px-3 py-2 border ${fieldErrors.searchTerms ? 'border-red-500' : 'border-gray-300'} rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500`}
                 placeholder="e.g., music, audio, sound designer"
                 onKeyDown={(e) => e.key === 'Enter' && handleAddSearchTerm()}
               />
@@ -207,33 +446,376 @@ const SiteManager: React.FC<SiteManagerProps> = ({
                 </div>
               ))}
             </div>
+            <FieldError message={fieldErrors.searchTerms} />
           </div>
           
+          {newSite.type === 'html' && (
+            <>
+              <div className="mb-4">
+                <h4 className="text-md font-medium mb-2">CSS Selectors</h4>
+                <p className="text-sm text-gray-600 mb-3">
+                  These selectors are used to extract job information from the website's HTML.
+                </p>
+              
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {Object.entries(defaultSelectors).map(([key]) => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1 capitalize">
+                        {key.replace(/([A-Z])/g, ' $1').trim()}
+                        {REQUIRED_SELECTORS.includes(key) && <span className="normal-case"> (required)</span>}
+                      </label>
+                      <input
+                        type="text"
+                        value={newSite.selectors[key as keyof typeof defaultSelectors]}
+                        onChange={(e) => handleSelectorChange(key as keyof typeof defaultSelectors, e.target.value)}
+                        className={fieldClass(`selectors.${key}`)}
+                        placeholder={`CSS selector for ${key}`}
+                      />
+                      <FieldError message={fieldErrors[`selectors.${key}`]} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+              
+              <div className="mb-4">
+                <h4 className="text-md font-medium mb-2">Detail Page Selectors</h4>
+                <p className="text-sm text-gray-600 mb-3">
+                  Optional. When set, each new job's link is opened and these selectors are applied to that page.
+                </p>
+              
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {detailSelectorFields.map(({ key, label, placeholder }) => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                      <input
+                        type="text"
+                        value={newSite.selectors.detail?.[key] || ''}
+                        onChange={(e) => handleDetailSelectorChange(key, e.target.value)}
+                        className={fieldClass(`selectors.detail.${key}`)}
+                        placeholder={placeholder}
+                      />
+                      <FieldError message={fieldErrors[`selectors.detail.${key}`]} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+              
+              <div className="mb-4">
+                <h4 className="text-md font-medium mb-2">Rendering</h4>
+                <p className="text-sm text-gray-600 mb-3">
+                  Boards that build their listings with JavaScript show up empty when fetched as is. Loading them in a
+                  headless browser runs their scripts before the selectors are applied, but is much slower.
+                </p>
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Load Pages</label>
+                    <select
+                      value={newSite.render?.mode || 'static'}
+                      onChange={(e) => handleRenderChange({ mode: e.target.value === 'static' ? undefined : e.target.value as RenderMode })}
+                      className={fieldClass('render.mode')}
+                    >
+                      <option value="static">As served (fast)</option>
+                      <option value="browser">In a headless browser</option>
+                    </select>
+                    <FieldError message={fieldErrors['render.mode']} />
+                  </div>
+                  
+                  {newSite.render?.mode === 'browser' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Wait For Selector</label>
+                        <input
+                          type="text"
+                          value={newSite.render.waitFor || ''}
+                          onChange={(e) => handleRenderChange({ waitFor: e.target.value || undefined })}
+                          className={fieldClass('render.waitFor')}
+                          placeholder="e.g., .job-card (defaults to page load)"
+                        />
+                        <FieldError message={fieldErrors['render.waitFor']} />
+                      </div>
+                      
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Scroll to Load More</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={50}
+                          value={newSite.render.scrollCount ?? ''}
+                          onChange={(e) => handleRenderChange({ scrollCount: e.target.value ? parseInt(e.target.value) : undefined })}
+                          className={fieldClass('render.scrollCount')}
+                          placeholder="0 (times to scroll to the bottom)"
+                        />
+                        <FieldError message={fieldErrors['render.scrollCount']} />
+                      </div>
+                      
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Wait After Each Scroll (ms)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          value={newSite.render.scrollDelayMs ?? ''}
+                          onChange={(e) => handleRenderChange({ scrollDelayMs: e.target.value ? parseInt(e.target.value) : undefined })}
+                          className={fieldClass('render.scrollDelayMs')}
+                          placeholder="1000"
+                        />
+                        <FieldError message={fieldErrors['render.scrollDelayMs']} />
+                      </div>
+                      
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Page Timeout (ms)</label>
+                        <input
+                          type="number"
+                          min={1}
+                          value={newSite.render.timeoutMs ?? ''}
+                          onChange={(e) => handleRenderChange({ timeoutMs: e.target.value ? parseInt(e.target.value) : undefined })}
+                          className={fieldClass('render.timeoutMs')}
+                          placeholder="30000 (server default)"
+                        />
+                        <FieldError message={fieldErrors['render.timeoutMs']} />
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+          
+          {newSite.type === 'json' && (
+            <div className="mb-4">
+              <h4 className="text-md font-medium mb-2">JSON Field Paths</h4>
+              <p className="text-sm text-gray-600 mb-3">
+                Dotted paths into the response, e.g. <code>data.jobs</code> or <code>locations[0].city</code>.
+                Field paths are relative to each listing.
+              </p>
+              
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Listings Path</label>
+                  <input
+                    type="text"
+                    value={newSite.json.itemsPath}
+                    onChange={(e) => handleJsonChange({ itemsPath: e.target.value })}
+                    className={fieldClass('json.itemsPath', 'font-mono')}
+                    placeholder="e.g., data.results (empty if the response is a list)"
+                  />
+                  <FieldError message={fieldErrors['json.itemsPath']} />
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Next Page Path</label>
+                  <input
+                    type="text"
+                    value={newSite.json.nextPagePath || ''}
+                    onChange={(e) => handleJsonChange({ nextPagePath: e.target.value || undefined })}
+                    className={fieldClass('json.nextPagePath', 'font-mono')}
+                    placeholder="Optional, e.g., links.next"
+                  />
+                  <FieldError message={fieldErrors['json.nextPagePath']} />
+                </div>
+                
+                {jsonFieldInputs.map(({ key, label, placeholder }) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                    <input
+                      type="text"
+                      value={newSite.json.fields[key] || ''}
+                      onChange={(e) => handleJsonFieldChange(key, e.target.value)}
+                      className={fieldClass(`json.fields.${key}`, 'font-mono')}
+                      placeholder={placeholder}
+                    />
+                    <FieldError message={fieldErrors[`json.fields.${key}`]} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          
+          {newSite.type === 'rss' && (
+            <p className="mb-4 text-sm text-gray-600">
+              Feed items are read automatically: title, link, description, publication date, and the
+              author as company. Both RSS 2.0 and Atom feeds are supported.
+            </p>
+          )}
+          
           <div className="mb-4">
-            <h4 className="text-md font-medium mb-2">CSS Selectors</h4>
+            <h4 className="text-md font-medium mb-2">Pagination</h4>
             <p className="text-sm text-gray-600 mb-3">
-              These selectors are used to extract job information from the website's HTML.
+              Optional. Use either a "next page" link or a page parameter appended to the search URL
+              (<code>{'{page}'}</code> is the 1-based page number, <code>{'{offset}'}</code> is the result offset).
             </p>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {Object.entries(defaultSelectors).map(([key]) => (
-                <div key={key}>
-                  <label className="block text-sm font-medium text-gray-700 mb-1 capitalize">
-                    {key.replace(/([A-Z])/g, ' $1').trim()}
-                  </label>
+              {newSite.type === 'html' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Next Page Selector</label>
                   <input
                     type="text"
-                    value={newSite.selectors[key as keyof typeof defaultSelectors]}
-                    onChange={(e) => handleSelectorChange(key as keyof typeof defaultSelectors, e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                    placeholder={`CSS selector for ${key}`}
+                    value={newSite.pagination?.nextPageSelector || ''}
+                    onChange={(e) => handlePaginationChange({ nextPageSelector: e.target.value })}
+                    className={fieldClass('pagination.nextPageSelector')}
+                    placeholder="e.g., a[aria-label='Next Page']"
                   />
+                  <FieldError message={fieldErrors['pagination.nextPageSelector']} />
                 </div>
-              ))}
+              )}
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Page Parameter</label>
+                <input
+                  type="text"
+                  value={newSite.pagination?.pageParam || ''}
+                  onChange={(e) => handlePaginationChange({ pageParam: e.target.value })}
+                  className={fieldClass('pagination.pageParam')}
+                  placeholder="e.g., &start={offset}"
+                />
+                <FieldError message={fieldErrors['pagination.pageParam']} />
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Results Per Page</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={newSite.pagination?.pageSize ?? ''}
+                  onChange={(e) => handlePaginationChange({ pageSize: e.target.value ? parseInt(e.target.value) : undefined })}
+                  className={fieldClass('pagination.pageSize')}
+                  placeholder="e.g., 10"
+                />
+                <FieldError message={fieldErrors['pagination.pageSize']} />
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Max Pages</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={newSite.pagination?.maxPages ?? 1}
+                  onChange={(e) => handlePaginationChange({ maxPages: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className={fieldClass('pagination.maxPages')}
+                />
+                <FieldError message={fieldErrors['pagination.maxPages']} />
+              </div>
+            </div>
+          </div>
+          
+          <div className="mb-4">
+            <h4 className="text-md font-medium mb-2">Politeness</h4>
+            <p className="text-sm text-gray-600 mb-3">
+              Optional. Limits apply to every request made to this site's host during a run, including detail pages.
+              Hosts that answer 429 or 403 are backed off automatically.
+            </p>
+            
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Delay Between Requests (ms)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={newSite.politeness?.minDelayMs ?? ''}
+                  onChange={(e) => handlePolitenessChange({ minDelayMs: e.target.value ? parseInt(e.target.value) : undefined })}
+                  className={fieldClass('politeness.minDelayMs')}
+                  placeholder="1000 (server default)"
+                />
+                <FieldError message={fieldErrors['politeness.minDelayMs']} />
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Max Concurrent Requests</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={newSite.politeness?.maxConcurrency ?? ''}
+                  onChange={(e) => handlePolitenessChange({ maxConcurrency: e.target.value ? parseInt(e.target.value) : undefined })}
+                  className={fieldClass('politeness.maxConcurrency')}
+                  placeholder="2 (server default)"
+                />
+                <FieldError message={fieldErrors['politeness.maxConcurrency']} />
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">User-Agent</label>
+                <input
+                  type="text"
+                  value={newSite.politeness?.userAgent || ''}
+                  onChange={(e) => handlePolitenessChange({ userAgent: e.target.value || undefined })}
+                  className={fieldClass('politeness.userAgent')}
+                  placeholder="MusicAudioJobScraper/0.1 (server default)"
+                />
+                <FieldError message={fieldErrors['politeness.userAgent']} />
+              </div>
+              
+              <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-6">
+                <input
+                  type="checkbox"
+                  checked={newSite.politeness?.respectRobotsTxt === true}
+                  onChange={(e) => handlePolitenessChange({ respectRobotsTxt: e.target.checked || undefined })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Honor robots.txt (skip disallowed pages and use its crawl delay)
+              </label>
             </div>
           </div>
           
-          <div className="flex justify-end gap-2">
+          <div className="mb-4">
+            <h4 className="text-md font-medium mb-2">Relevance</h4>
+            <p className="text-sm text-gray-600 mb-3">
+              Optional. Keywords here are added to the global relevance rules for this site's jobs; weights and the
+              exclude action left blank use the global ones.
+            </p>
+            <RelevanceRulesEditor
+              rules={newSite.relevance ?? {}}
+              onChange={(relevance) => setNewSite({ ...newSite, relevance })}
+              fieldErrors={fieldErrors}
+              prefix="relevance"
+              inherits
+            />
+          </div>
+          
+          <div className="mb-4">
+            <h4 className="text-md font-medium mb-2">Schedule</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cron Expression</label>
+                <input
+                  type="text"
+                  list="schedule-presets"
+                  value={newSite.schedule || ''}
+                  onChange={(e) => setNewSite({ ...newSite, schedule: e.target.value || undefined })}
+                  className={fieldClass('schedule', 'font-mono')}
+                  placeholder="0 0 * * * (daily at midnight)"
+                />
+                <FieldError message={fieldErrors.schedule} />
+                <datalist id="schedule-presets">
+                  {schedulePresets.map(preset => (
+                    <option key={preset.value} value={preset.value}>{preset.label}</option>
+                  ))}
+                </datalist>
+              </div>
+              
+              <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-6">
+                <input
+                  type="checkbox"
+                  checked={newSite.enabled !== false}
+                  onChange={(e) => setNewSite({ ...newSite, enabled: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Enabled (uncheck to pause scraping this site)
+              </label>
+            </div>
+          </div>
+          
+          <SelectorTester site={toSite(newSite)} />
+          
+          <div className="flex justify-end items-center gap-2">
+            {errorCount > 0 && (
+              <p className="flex-grow text-sm text-red-600">
+                Fix the {errorCount === 1 ? 'highlighted field' : `${errorCount} highlighted fields`} before saving.
+              </p>
+            )}
+            {errorCount === 0 && saveError && (
+              <p className="flex-grow text-sm text-red-600">{saveError}</p>
+            )}
             <button
               onClick={handleCancel}
               className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
@@ -242,11 +824,10 @@ const SiteManager: React.FC<SiteManagerProps> = ({
             </button>
             <button
               onClick={handleSubmit}
-              disabled={!newSite.name || !newSite.url || newSite.searchTerms.length === 0}
               className="flex items-center gap-1 bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:bg-indigo-300"
             >
               <Save size={16} />
-              {editingIndex !== null ? 'Update' : 'Save'}
+              {editingId !== null ? 'Update' : 'Save'}
             </button>
           </div>
         </div>
@@ -259,20 +840,40 @@ const SiteManager: React.FC<SiteManagerProps> = ({
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">URL</th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Search Terms</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Run</th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {sites.length === 0 ? (
               <tr>
-                <td colSpan={4} className="px-6 py-4 text-center text-gray-500">
+                <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
                   No sites configured. Add a site to start scraping.
                 </td>
               </tr>
             ) : (
-              sites.map((site, index) => (
-                <tr key={index}>
-                  <td className="px-6 py-4 whitespace-nowrap">{site.name}</td>
+              sites.map(site => (
+                <tr key={site.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center gap-2">
+                      {site.name}
+                      {site.type && site.type !== 'html' && (
+                        <span className="px-1.5 py-0.5 bg-indigo-50 text-indigo-700 text-xs font-medium uppercase rounded">
+                          {site.type}
+                        </span>
+                      )}
+                      {(!site.type || site.type === 'html') && site.render?.mode === 'browser' && (
+                        <span className="px-1.5 py-0.5 bg-indigo-50 text-indigo-700 text-xs font-medium uppercase rounded">
+                          browser
+                        </span>
+                      )}
+                      {siteHealth.find(health => health.siteId === site.id)?.broken && (
+                        <span title="No jobs found in recent runs. The selectors may be broken.">
+                          <AlertTriangle size={16} className="text-yellow-500" />
+                        </span>
+                      )}
+                    </div>
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 truncate max-w-[200px]">
                     {site.url}
                   </td>
@@ -285,22 +886,57 @@ const SiteManager: React.FC<SiteManagerProps> = ({
                       ))}
                     </div>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {site.enabled === false ? (
+                      <span className="px-2 py-1 bg-gray-200 text-gray-700 text-xs font-medium rounded">Paused</span>
+                    ) : schedulesById.get(site.id)?.nextRun ? (
+                      <span title={schedulesById.get(site.id)?.schedule} className="text-gray-600">
+                        {formatDistanceToNow(new Date(schedulesById.get(site.id)?.nextRun as string), { addSuffix: true })}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <div className="flex gap-2">
-                      <button
-                        onClick={() => handleEdit(index)}
-                        disabled={!serverRunning}
-                        className="text-indigo-600 hover:text-indigo-900 disabled:text-gray-400"
-                      >
-                        <Edit size={18} />
-                      </button>
-                      <button
-                        onClick={() => onDeleteSite(index)}
-                        disabled={!serverRunning}
-                        className="text-red-600 hover:text-red-900 disabled:text-gray-400"
-                      >
-                        <Trash2 size={18} />
-                      </button>
+                      {canEdit && (
+                        <>
+                          <button
+                            onClick={() => handleToggleEnabled(site)}
+                            disabled={!serverRunning}
+                            title={site.enabled === false ? 'Resume' : 'Pause'}
+                            className="text-gray-600 hover:text-gray-900 disabled:text-gray-400"
+                          >
+                            {site.enabled === false ? <Play size={18} /> : <Pause size={18} />}
+                          </button>
+                          <button
+                            onClick={() => handleEdit(site)}
+                            disabled={!serverRunning}
+                            className="text-indigo-600 hover:text-indigo-900 disabled:text-gray-400"
+                          >
+                            <Edit size={18} />
+                          </button>
+                        </>
+                      )}
+                      {serverRunning && site.id && (
+                        <a
+                          href={siteExportUrl([site.id])}
+                          download
+                          title="Export"
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          <Download size={18} />
+                        </a>
+                      )}
+                      {canEdit && (
+                        <button
+                          onClick={() => onDeleteSite(site)}
+                          disabled={!serverRunning}
+                          className="text-red-600 hover:text-red-900 disabled:text-gray-400"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { User, UserFieldErrors, UserRole } from '../types';
+import { fetchUsers, addUser, updateUser, deleteUser } from '../api';
+import { formatDistanceToNow } from 'date-fns';
+import { KeyRound, Trash2, UserPlus } from 'lucide-react';
+
+interface UserManagerProps {
+  currentUser: User;
+}
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+const emptyForm = { username: '', password: '', role: 'user' as UserRole };
+
+// Accounts for the team; only shown to admins
+const UserManager: React.FC<UserManagerProps> = ({ currentUser }) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [fieldErrors, setFieldErrors] = useState<UserFieldErrors>({});
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+    fetchUsers().then(setUsers);
+  }, []);
+
+  const replaceUser = (updated: User) =>
+    setUsers(prev => prev.map(user => (user.id === updated.id ? updated : user)));
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setFieldErrors({});
+    setMessage(null);
+    try {
+      const created = await addUser(form.username.trim(), form.password, form.role);
+      setUsers(prev => [...prev, created]);
+      setForm(emptyForm);
+      setMessage({ text: `Added ${created.username}.`, isError: false });
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.data?.fieldErrors) {
+        setFieldErrors(err.response.data.fieldErrors);
+      }
+      setMessage({ text: errorMessage(err, 'Failed to add user'), isError: true });
+    }
+  };
+
+  const handleRoleChange = async (user: User, role: UserRole) => {
+    setMessage(null);
+    try {
+      replaceUser(await updateUser(user.id, { role }));
+    } catch (err) {
+      setMessage({ text: errorMessage(err, 'Failed to change role'), isError: true });
+    }
+  };
+
+  const handleResetPassword = async (user: User) => {
+    const password = window.prompt(`New password for ${user.username}:`);
+    if (!password) return;
+    
+    setMessage(null);
+    try {
+      await updateUser(user.id, { password });
+      setMessage({ text: `Changed the password for ${user.username}.`, isError: false });
+    } catch (err) {
+      setMessage({ text: errorMessage(err, 'Failed to change password'), isError: true });
+    }
+  };
+
+  const handleDelete = async (user: User) => {
+    if (!window.confirm(`Remove ${user.username}? Their pipeline, saved searches and notifications are removed too.`)) return;
+    
+    setMessage(null);
+    try {
+      await deleteUser(user.id);
+      setUsers(prev => prev.filter(other => other.id !== user.id));
+    } catch (err) {
+      setMessage({ text: errorMessage(err, 'Failed to remove user'), isError: true });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-1">Users</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Admins can change sites, relevance rules and the page cache, and manage accounts.
+        Everyone has their own pipeline, hidden jobs, saved searches and notifications.
+      </p>
+      
+      {message && (
+        <p className={`text-sm mb-4 ${message.isError ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+      
+      <div className="overflow-x-auto mb-6">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Username</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Added</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {users.map(user => (
+              <tr key={user.id}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {user.username}
+                  {user.id === currentUser.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <select
+                    value={user.role}
+                    onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                    className="px-2 py-1 border border-gray-300 rounded-md"
+                  >
+                    <option value="user">User</option>
+                    <option value="admin">Admin</option>
+                  </select>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {formatDistanceToNow(new Date(user.createdAt), { addSuffix: true })}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleResetPassword(user)}
+                      title="Set password"
+                      className="text-gray-600 hover:text-gray-900"
+                    >
+                      <KeyRound size={18} />
+                    </button>
+                    {user.id !== currentUser.id && (
+                      <button
+                        onClick={() => handleDelete(user)}
+                        title="Remove"
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      
+      <form onSubmit={handleAdd} className="flex flex-wrap items-start gap-2">
+        <div>
+          <input
+            type="text"
+            placeholder="Username"
+            autoComplete="off"
+            value={form.username}
+            onChange={(e) => setForm({ ...form, username: e.target.value })}
+            className={`px-3 py-2 border rounded-md ${fieldErrors.username ? 'border-red-400' : 'border-gray-300'}`}
+            required
+          />
+          {fieldErrors.username && <p className="text-red-600 text-xs mt-1">{fieldErrors.username}</p>}
+        </div>
+        <div>
+          <input
+            type="password"
+            placeholder="Password"
+            autoComplete="new-password"
+            value={form.password}
+            onChange={(e) => setForm({ ...form, password: e.target.value })}
+            className={`px-3 py-2 border rounded-md ${fieldErrors.password ? 'border-red-400' : 'border-gray-300'}`}
+            required
+          />
+          {fieldErrors.password && <p className="text-red-600 text-xs mt-1">{fieldErrors.password}</p>}
+        </div>
+        <select
+          value={form.role}
+          onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="user">User</option>
+          <option value="admin">Admin</option>
+        </select>
+        <button
+          type="submit"
+          className="flex items-center gap-1 bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors"
+        >
+          <UserPlus size={16} />
+          Add User
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default UserManager;
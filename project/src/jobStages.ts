@@ -0,0 +1,9 @@
+import { JobStage } from './types';
+
+// Pipeline stages in order, with how they're labelled and coloured
+export const jobStages: { value: JobStage; label: string; badgeClass: string }[] = [
+  { value: 'saved', label: 'Saved', badgeClass: 'bg-blue-100 text-blue-800' },
+  { value: 'applied', label: 'Applied', badgeClass: 'bg-indigo-100 text-indigo-800' },
+  { value: 'interviewing', label: 'Interviewing', badgeClass: 'bg-green-100 text-green-800' },
+  { value: 'rejected', label: 'Rejected', badgeClass: 'bg-gray-200 text-gray-700' }
+];
@@ -1,3 +1,9 @@
+import type { RelevanceRules, ScoreReason } from '../shared/relevance';
+
+export type JobStatus = 'active' | 'expired';
+
+export type WorkMode = 'remote' | 'hybrid' | 'onsite';
+
 export interface Job {
   id: string;
   title: string;
@@ -7,6 +13,68 @@ export interface Job {
   source: string;
   keyword: string;
   date: string;
+  // ISO timestamps of the first and most recent scrape that found this listing
+  firstSeen: string;
+  lastSeen: string;
+  // Consecutive runs of its source that did not find this listing
+  missedRuns: number;
+  status: JobStatus;
+  // Set on listings folded into another job as duplicates
+  duplicateOf?: string | null;
+  // On canonical jobs, every listing of the same posting including this one
+  sources?: JobSourceLink[];
+  // Filled in from the listing's detail page when the site has detail selectors
+  description?: string;
+  salary?: string;
+  employmentType?: string;
+  // ISO timestamp of when the board says the job was posted
+  postedDate?: string;
+  detailFetchedAt?: string;
+  // Points from the relevance rules' include terms, and the matches behind them
+  score?: number | null;
+  scoreReasons?: ScoreReason[];
+  // Exclude term the job hit, if any
+  excludedBy?: string | null;
+  // Parsed from location against the bundled place list; region and country are
+  // codes such as "TN" and "US", and coordinates are only known for listed cities
+  city?: string | null;
+  region?: string | null;
+  country?: string | null;
+  workMode?: WorkMode | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  // The user's own tracking of this job, when there is any
+  userState?: JobUserState;
+}
+
+export interface JobSourceLink {
+  id: string;
+  source: string;
+  link: string;
+}
+
+export type JobStage = 'saved' | 'applied' | 'interviewing' | 'rejected';
+
+// Stored separately from scraped fields, so it survives rescrapes
+export interface JobUserState {
+  jobId: string;
+  // Position in the application pipeline; null when the job isn't tracked
+  stage: JobStage | null;
+  appliedAt: string | null;
+  // Hidden jobs are left out of the job list unless asked for
+  hidden: boolean;
+  notes: string;
+  updatedAt: string;
+}
+
+export type JobUserStateChanges = Partial<Pick<JobUserState, 'stage' | 'appliedAt' | 'hidden' | 'notes'>>;
+
+export interface DetailSelectors {
+  description?: string;
+  salary?: string;
+  employmentType?: string;
+  // Element whose datetime attribute or text holds the posting date
+  postedDate?: string;
 }
 
 export interface SiteSelectors {
@@ -15,11 +83,398 @@ export interface SiteSelectors {
   company: string;
   location: string;
   link: string;
+  // Applied to each job's linked page; details are only fetched when at least one is set
+  detail?: DetailSelectors;
 }
 
-export interface Site {
+export interface SitePagination {
+  // CSS selector for the "next page" link on a results page
+  nextPageSelector?: string;
+  // Appended to the search URL for later pages, e.g. "&start={offset}" or "&page={page}"
+  pageParam?: string;
+  // Results per page, used to compute {offset}
+  pageSize?: number;
+  maxPages: number;
+}
+
+export type SiteType = 'html' | 'json' | 'rss';
+
+// Dotted paths into each item of a JSON response, e.g. "company.name" or "locations[0].city"
+export interface JsonFieldPaths {
+  title: string;
+  company?: string;
+  location?: string;
+  link: string;
+  description?: string;
+  salary?: string;
+  employmentType?: string;
+  // ISO date strings and epoch timestamps are both understood
+  postedDate?: string;
+}
+
+export interface JsonSourceConfig {
+  // Path to the array of listings; empty when the response itself is the array
+  itemsPath: string;
+  fields: JsonFieldPaths;
+  // Path to the next page's URL, for APIs that return one
+  nextPagePath?: string;
+}
+
+// Limits the request scheduler enforces for a site's host
+export interface SitePoliteness {
+  // Minimum time between the starts of two requests to the host; server default 1000
+  minDelayMs?: number;
+  // Requests to the host in flight at once; server default 2
+  maxConcurrency?: number;
+  // Sent instead of the server's default User-Agent
+  userAgent?: string;
+  // Skip URLs robots.txt disallows and honor its Crawl-delay
+  respectRobotsTxt?: boolean;
+}
+
+export type RenderMode = 'static' | 'browser';
+
+// How an HTML site's pages are loaded before the selectors run
+export interface SiteRender {
+  // 'browser' loads pages in headless Chrome so client-side listings exist; default 'static'
+  mode?: RenderMode;
+  // CSS selector to wait for before reading the page
+  waitFor?: string;
+  // Scrolls to the bottom, for boards that load more as you scroll, and the wait after each
+  scrollCount?: number;
+  scrollDelayMs?: number;
+  // Limit on loading the page and waiting for waitFor; server default 30000
+  timeoutMs?: number;
+}
+
+interface SiteBase {
+  // Assigned by the server; absent on sites that haven't been saved yet
+  id?: string;
+  // Bumped by the server on every update, used to detect conflicting edits
+  version?: number;
   name: string;
   url: string;
+  // Appended to the URL in turn; feeds and APIs without search are fetched once when empty
   searchTerms: string[];
+  pagination?: SitePagination;
+  politeness?: SitePoliteness;
+  // Added to the global relevance rules for this site's jobs
+  relevance?: RelevanceRules;
+  // Cron expression for scheduled scrapes; the server default (daily at midnight) if unset
+  schedule?: string;
+  // Paused sites are skipped by scheduled and manual scrapes. Defaults to true.
+  enabled?: boolean;
+}
+
+// Sites saved before types existed have no type and are HTML
+export interface HtmlSite extends SiteBase {
+  type?: 'html';
   selectors: SiteSelectors;
-}
\ No newline at end of file
+  render?: SiteRender;
+}
+
+export interface JsonSite extends SiteBase {
+  type: 'json';
+  json: JsonSourceConfig;
+}
+
+// RSS 2.0 and Atom feeds are read from their standard elements
+export interface RssSite extends SiteBase {
+  type: 'rss';
+}
+
+export type Site = HtmlSite | JsonSite | RssSite;
+
+// Validation errors keyed by dotted field path, e.g. "selectors.title"
+export type { SiteFieldErrors } from '../shared/siteSchema';
+
+// Keyword rules jobs are scored against, globally and per site
+export type { RelevanceRules, IncludeRule, ExcludeRule, ScoreReason, RelevanceField, ExcludeAction } from '../shared/relevance';
+
+// Versioned wrapper used to share site configs between installs
+export interface SiteBundle {
+  format: 'job-scraper-sites';
+  version: number;
+  name?: string;
+  description?: string;
+  exportedAt?: string;
+  sites: Site[];
+}
+
+// A bundle shipped with the server
+export interface SitePreset {
+  id: string;
+  name: string;
+  description: string;
+  siteCount: number;
+}
+
+// How a bundled site compares with the configured sites, matched by name
+export interface SiteImportEntry {
+  site: Site;
+  status: 'new' | 'unchanged' | 'conflict';
+  existingId: string | null;
+  // Dotted paths of the fields that differ from the existing site
+  changes: string[];
+}
+
+export type SiteImportAction = 'add' | 'replace' | 'skip';
+
+export interface SiteImportResolution {
+  action: SiteImportAction;
+  // Name to add the site under, to avoid clashing with an existing one
+  name?: string;
+}
+
+export interface SiteImportResult {
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+export interface SiteSchedule {
+  siteId: string;
+  name: string;
+  schedule: string;
+  enabled: boolean;
+  // ISO timestamp, null when paused
+  nextRun: string | null;
+}
+
+export type JobSort = 'newest' | 'oldest' | 'title' | 'company' | 'score';
+
+export interface JobQuery {
+  q?: string;
+  source?: string;
+  keyword?: string;
+  status?: JobStatus;
+  // ISO timestamps bounding Job.date
+  from?: string;
+  to?: string;
+  workMode?: WorkMode;
+  // Country code, or country and region as "US-TN"
+  location?: string;
+  // A place from fetchPlaces() and the radius around it in miles
+  near?: string;
+  within?: number;
+  sort?: JobSort;
+  includeHidden?: boolean;
+  // Leave out jobs flagged by an exclude term
+  hideExcluded?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface JobPage {
+  jobs: Job[];
+  total: number;
+  offset: number;
+  limit: number;
+  // Offset of the next page, or null when there are no more results
+  nextOffset: number | null;
+}
+
+// Filters a saved search applies; paging is left to whoever runs it
+// Download formats offered by /api/jobs/export
+export type JobExportFormat = 'csv' | 'json' | 'ndjson';
+
+export type SavedSearchFilters = Pick<JobQuery, 'q' | 'source' | 'keyword' | 'status' | 'from' | 'to' | 'workMode' | 'location' | 'near' | 'within' | 'sort'>;
+
+// Where a saved search's new matches are announced
+export interface SavedSearchNotify {
+  // In-app inbox; on unless set to false
+  inbox?: boolean;
+  webhookUrl?: string;
+  email?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: SavedSearchFilters;
+  notify: SavedSearchNotify;
+  userId: string;
+  createdAt: string;
+  matchCount: number;
+  // Matches recorded since the search was last opened
+  unreadCount: number;
+  lastMatchedAt: string | null;
+}
+
+export type NotificationChannel = 'inbox' | 'webhook' | 'email';
+
+export interface AppNotification {
+  id: string;
+  title: string;
+  text: string;
+  searchId: string | null;
+  searchName: string | null;
+  jobs: Pick<Job, 'id' | 'title' | 'company' | 'location' | 'link'>[];
+  createdAt: string;
+  read: boolean;
+}
+
+export interface NotificationPage {
+  notifications: AppNotification[];
+  unread: number;
+}
+
+export interface JobFacets {
+  sources: string[];
+  keywords: string[];
+  locations: JobLocationOption[];
+}
+
+export interface JobLocationOption {
+  // JobQuery.location value
+  value: string;
+  label: string;
+}
+
+export type ScrapeRunStatus = 'running' | 'completed' | 'failed';
+export type ScrapeStepStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface ScrapeTermProgress {
+  term: string;
+  status: ScrapeStepStatus;
+  jobsFound: number;
+  pages: number;
+  // Pages the response cache found unchanged since the last run, so their
+  // earlier results were reused
+  unchangedPages?: number;
+  // Status of the last page request, null if no response was received
+  httpStatus: number | null;
+  // 429/403 responses that made the scraper back off
+  blocked?: number;
+  error: string | null;
+}
+
+export interface ScrapeSiteProgress {
+  siteId?: string;
+  name: string;
+  status: ScrapeStepStatus;
+  jobsFound: number;
+  newJobs: number;
+  // Jobs found that hit an exclude term, whether flagged or dropped
+  excludedJobs?: number;
+  detailsFetched: number;
+  detailsFailed: number;
+  // Blocked responses for this site, including detail pages
+  blocked?: number;
+  terms: ScrapeTermProgress[];
+}
+
+export interface ScrapeRunError {
+  site: string | null;
+  term: string | null;
+  message: string;
+}
+
+// A 429/403 response; the host was left alone for waitMs before retrying
+export interface ScrapeRunBlock {
+  site: string;
+  // Null for detail pages
+  term: string | null;
+  url: string;
+  status: number;
+  waitMs: number;
+  // False when the scraper gave up on the request
+  retrying: boolean;
+  at: string;
+}
+
+export interface ScrapeRun {
+  id: string;
+  status: ScrapeRunStatus;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  // One step per site/search term pair
+  totalSteps: number;
+  completedSteps: number;
+  current: { site: string; term: string } | null;
+  jobsFound: number;
+  newJobs: number;
+  totalJobs: number | null;
+  // Runs recorded before politeness controls have none of these
+  blockedRequests?: number;
+  sites: ScrapeSiteProgress[];
+  // The first blocked responses of the run
+  blocks?: ScrapeRunBlock[];
+  errors: ScrapeRunError[];
+}
+
+export interface ScrapeRunPage {
+  runs: ScrapeRun[];
+  total: number;
+}
+
+// A search results page kept by the response cache; the body itself is
+// fetched separately from cachedPageUrl()
+export interface CachedPage {
+  url: string;
+  status: number | null;
+  contentType: string | null;
+  etag: string | null;
+  lastModified: string | null;
+  contentHash: string;
+  // Body size in bytes
+  size: number;
+  // When the body was last downloaded, and when it was last confirmed current
+  fetchedAt: string;
+  checkedAt: string;
+}
+
+export interface CachedPageList {
+  entries: CachedPage[];
+  total: number;
+  totalSize: number;
+}
+
+export interface SiteHealth {
+  siteId: string;
+  name: string;
+  // Most recent runs in a row in which the site returned no jobs
+  emptyRuns: number;
+  broken: boolean;
+  lastRunAt: string | null;
+  lastJobsFound: number | null;
+  lastError: string | null;
+}
+
+export interface SelectorMatch {
+  // For field selectors, the number of job containers in which it matched;
+  // for JSON field paths, the number of items in which it had a value
+  matches: number;
+  error: string | null;
+}
+
+export interface SelectorTestResult {
+  url: string;
+  term: string;
+  httpStatus: number;
+  // Keyed by selector name for HTML sites, field name for JSON ones; "items"
+  // counts the listings found in JSON and feed responses
+  selectors: Record<string, SelectorMatch>;
+  samples: Pick<Job, 'title' | 'company' | 'location' | 'link'>[];
+}
+
+// Admins can change sites and shared settings; every user has their own job
+// states, saved searches and notifications
+export type UserRole = 'admin' | 'user';
+
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+  createdAt: string;
+}
+
+export interface AuthSession {
+  user: User | null;
+  // No accounts exist yet, so the first one to be created is the admin
+  setupRequired: boolean;
+}
+
+// Per-field messages from the server, e.g. { username: 'That username is taken' }
+export type UserFieldErrors = Partial<Record<'username' | 'password' | 'role', string>>;
@@ -0,0 +1,8 @@
+import { WorkMode } from './types';
+
+// How a job's work is done, with how it's labelled and coloured
+export const workModes: { value: WorkMode; label: string; badgeClass: string }[] = [
+  { value: 'remote', label: 'Remote', badgeClass: 'bg-teal-100 text-teal-800' },
+  { value: 'hybrid', label: 'Hybrid', badgeClass: 'bg-amber-100 text-amber-800' },
+  { value: 'onsite', label: 'On-site', badgeClass: 'bg-gray-100 text-gray-700' }
+];